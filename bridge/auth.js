@@ -0,0 +1,94 @@
+// bridge/auth.js - PIN handshake and per-client roles
+const crypto = require('crypto');
+
+// Higher roles include everything the lower ones may do
+const ROLE_LEVELS = {
+    viewer: 1,   // read-only, receives state
+    operator: 2, // full control of the visuals
+    admin: 3     // may also reconfigure the bridge
+};
+
+// Compare digests so the check takes the same time however much of the PIN matches
+function pinMatches(candidate, pin) {
+    const a = crypto.createHash('sha256').update(String(candidate)).digest();
+    const b = crypto.createHash('sha256').update(String(pin)).digest();
+    return crypto.timingSafeEqual(a, b);
+}
+
+function createAuth({ adminPin, operatorPin, viewerPin }) {
+    const enabled = Boolean(adminPin || operatorPin || viewerPin);
+
+    return {
+        enabled,
+
+        // Role a client has before logging in: everyone is admin without PINs,
+        // anonymous clients are viewers unless viewing needs a PIN too
+        defaultRole: !enabled ? 'admin' : (viewerPin ? null : 'viewer'),
+
+        // Highest role whose PIN matches, or null
+        authenticate(pin) {
+            if (typeof pin !== 'string' || pin === '') return null;
+            if (adminPin && pinMatches(pin, adminPin)) return 'admin';
+            if (operatorPin && pinMatches(pin, operatorPin)) return 'operator';
+            if (viewerPin && pinMatches(pin, viewerPin)) return 'viewer';
+            return null;
+        },
+
+        hasRole(role, required) {
+            return Boolean(role) && ROLE_LEVELS[role] >= ROLE_LEVELS[required];
+        }
+    };
+}
+
+// Failed PINs are counted per client IP, so reconnecting doesn't reset them. After
+// maxAttempts the IP is locked out, twice as long for every lockout in a row.
+function createLoginLimiter({ maxAttempts, lockout, maxLockout, now = Date.now }) {
+    const clients = new Map();
+
+    // Forget IPs whose lockout ran out and that haven't failed since
+    function prune(time) {
+        clients.forEach((entry, ip) => {
+            if (entry.lockedUntil <= time && time - entry.lastFailure > maxLockout) {
+                clients.delete(ip);
+            }
+        });
+    }
+
+    return {
+        // ms until the IP may try again, 0 when it may
+        lockedFor(ip) {
+            const entry = clients.get(ip);
+            return entry ? Math.max(0, entry.lockedUntil - now()) : 0;
+        },
+
+        // Counts a wrong PIN; returns the lockout it started in ms, or 0
+        fail(ip) {
+            const time = now();
+            prune(time);
+            const entry = clients.get(ip) || { failures: 0, lockouts: 0, lockedUntil: 0, lastFailure: 0 };
+            entry.failures++;
+            entry.lastFailure = time;
+            clients.set(ip, entry);
+            if (entry.failures < maxAttempts) return 0;
+
+            const duration = Math.min(maxLockout, lockout * 2 ** entry.lockouts);
+            entry.failures = 0;
+            entry.lockouts++;
+            entry.lockedUntil = time + duration;
+            return duration;
+        },
+
+        succeed(ip) {
+            clients.delete(ip);
+        },
+
+        attempts(ip) {
+            return clients.get(ip)?.failures || 0;
+        }
+    };
+}
+
+module.exports = {
+    createAuth,
+    createLoginLimiter
+};
@@ -0,0 +1,64 @@
+// bridge/config.js - Bridge settings that can be changed at runtime and persisted
+//
+// The config file holds the routing table, the TouchDesigner probe target and logging:
+// { "touchdesigner": { "host", "port", "probeInterval" }, "routes": [...], "logging": { "level", ... } }
+// Environment variables only provide the defaults for anything it doesn't set.
+const fs = require('fs');
+const path = require('path');
+const { parseRoutes, defaultRoutes } = require('./routing');
+const { parseLoggerOptions } = require('./logger');
+
+function validateTouchDesigner(touchdesigner, defaults) {
+    const settings = { ...defaults, ...touchdesigner };
+    const port = parseInt(settings.port);
+    const probeInterval = parseInt(settings.probeInterval);
+
+    if (typeof settings.host !== 'string' || settings.host.trim() === '') {
+        throw new Error('TouchDesigner host is required');
+    }
+    if (!(port > 0 && port < 65536)) {
+        throw new Error(`TouchDesigner port must be between 1 and 65535, got ${JSON.stringify(settings.port)}`);
+    }
+    if (!(probeInterval === 0 || probeInterval >= 500)) {
+        throw new Error(`Probe interval must be 0 (disabled) or at least 500 ms, got ${JSON.stringify(settings.probeInterval)}`);
+    }
+    return { host: settings.host.trim(), port, probeInterval };
+}
+
+// Validate a plain config object; throws with a message suitable for the panel
+function parseBridgeConfig(config, defaults) {
+    if (!config || typeof config !== 'object') {
+        throw new Error('Config must be an object');
+    }
+    const touchdesigner = validateTouchDesigner(config.touchdesigner, defaults.touchdesigner);
+    const routes = config.routes === undefined
+        ? defaultRoutes({ ...defaults.destination, host: touchdesigner.host, port: touchdesigner.port })
+        : parseRoutes(config.routes);
+    const logging = parseLoggerOptions(config.logging, defaults.logging);
+    return { touchdesigner, routes, logging };
+}
+
+// Read the config file; without one everything goes to the default TouchDesigner destination
+function loadBridgeConfig({ file, defaults }) {
+    const configPath = path.resolve(file);
+    if (!fs.existsSync(configPath)) {
+        return parseBridgeConfig({}, defaults);
+    }
+    const config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    // Older routes files are a bare array of routes
+    return parseBridgeConfig(Array.isArray(config) ? { routes: config } : config, defaults);
+}
+
+// Write through a temporary file so a crash never leaves half a config behind
+function saveBridgeConfig(file, config) {
+    const configPath = path.resolve(file);
+    const tempPath = `${configPath}.tmp`;
+    fs.writeFileSync(tempPath, `${JSON.stringify(config, null, 2)}\n`);
+    fs.renameSync(tempPath, configPath);
+}
+
+module.exports = {
+    parseBridgeConfig,
+    loadBridgeConfig,
+    saveBridgeConfig
+};
@@ -0,0 +1,70 @@
+// bridge/discovery.js - Advertise the bridge over mDNS/DNS-SD and keep track of other bridges
+//
+// Browsers can't browse mDNS, so every bridge also browses for its peers and
+// serves what it has found on its discovery HTTP endpoint. A panel that can
+// reach any one bridge can therefore list all of them.
+const os = require('os');
+const { Bonjour } = require('bonjour-service');
+
+// Advertised as _osc-bridge._tcp
+const SERVICE_TYPE = 'osc-bridge';
+
+// Non-internal IPv4 addresses of this machine, i.e. where panels on the LAN can reach it
+function localAddresses() {
+    return Object.values(os.networkInterfaces())
+        .flat()
+        .filter((entry) => entry && entry.family === 'IPv4' && !entry.internal)
+        .map((entry) => entry.address);
+}
+
+function describeService(service) {
+    const addresses = (service.addresses || []).filter((address) => !address.includes(':'));
+    return {
+        name: service.name,
+        host: service.host,
+        addresses,
+        port: service.port,
+        secure: service.txt?.secure === '1',
+        // Bridges embedded in the panel's server are mounted on a path, e.g. /osc
+        path: service.txt?.path || ''
+    };
+}
+
+function createDiscovery({ name, port, secure, path = '', onError = () => {} }) {
+    let bonjour = null;
+    let service = null;
+    let browser = null;
+
+    return {
+        start() {
+            if (bonjour) return;
+            bonjour = new Bonjour({}, onError);
+            service = bonjour.publish({ name, type: SERVICE_TYPE, port, txt: { secure: secure ? '1' : '0', path } });
+            service.on('error', onError);
+            browser = bonjour.find({ type: SERVICE_TYPE });
+        },
+
+        stop() {
+            if (!bonjour) return;
+            browser.stop();
+            const instance = bonjour;
+            instance.unpublishAll(() => instance.destroy());
+            bonjour = null;
+            service = null;
+            browser = null;
+        },
+
+        // This bridge first, then every other bridge seen on the LAN
+        bridges() {
+            const self = { name: service ? service.name : name, host: os.hostname(), addresses: localAddresses(), port, secure, path, self: true };
+            if (!browser) return [self];
+            // The service may have been renamed to resolve a conflict; match on the published name
+            const others = browser.services
+                .filter((found) => !(found.name === service.name && found.port === port))
+                .map(describeService);
+            return [self, ...others];
+        }
+    };
+}
+
+module.exports = { createDiscovery, localAddresses };
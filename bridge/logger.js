@@ -0,0 +1,202 @@
+// bridge/logger.js - Leveled logging to the console and optional rotating files
+//
+// Per-message logging (every OSC packet in and out) goes through sampled(),
+// which prints at most one line per address per interval so a 60 Hz knob drag
+// doesn't flood the console or slow the bridge down.
+const fs = require('fs');
+const path = require('path');
+const util = require('util');
+
+const LEVELS = ['error', 'warn', 'info', 'debug', 'trace'];
+const FORMATS = ['pretty', 'json'];
+
+// The log file must stay inside `directory`, so a bad setting can't rotate
+// (rename and delete) files elsewhere
+function resolveLogFile(directory, file) {
+    const root = path.resolve(directory);
+    const filePath = path.resolve(file);
+    const relative = path.relative(root, filePath);
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+        throw new Error(`Log file ${JSON.stringify(file)} must be inside the log directory ${root}`);
+    }
+    return filePath;
+}
+
+// Validate logging options from env and/or the config file; throws like the other config parsers.
+// defaults.directory (BRIDGE_LOG_DIR) bounds the log file and can't be overridden.
+function parseLoggerOptions(options, defaults) {
+    const settings = { ...defaults, ...options };
+    const sampleInterval = parseInt(settings.sampleInterval);
+    const maxSize = parseInt(settings.maxSize);
+    const maxFiles = parseInt(settings.maxFiles);
+
+    if (!LEVELS.includes(settings.level)) {
+        throw new Error(`Log level must be one of ${LEVELS.join(', ')}, got ${JSON.stringify(settings.level)}`);
+    }
+    if (!FORMATS.includes(settings.format)) {
+        throw new Error(`Log format must be ${FORMATS.join(' or ')}, got ${JSON.stringify(settings.format)}`);
+    }
+    if (!(sampleInterval >= 0)) {
+        throw new Error(`Log sample interval must be 0 (log everything) or more ms, got ${JSON.stringify(settings.sampleInterval)}`);
+    }
+    if (typeof settings.file !== 'string') {
+        throw new Error('Log file must be a path or empty');
+    }
+    if (settings.file) {
+        resolveLogFile(defaults.directory, settings.file);
+    }
+    if (!(maxSize > 0) || !(maxFiles > 0)) {
+        throw new Error('Log file size and count must be positive');
+    }
+    return { level: settings.level, format: settings.format, sampleInterval, file: settings.file, maxSize, maxFiles };
+}
+
+// Errors print as code + message (plus stack at debug), everything else as compact JSON-ish text
+function serializeError(error) {
+    return { message: error.message, code: error.code, stack: error.stack };
+}
+
+function formatValue(value, verbose) {
+    if (value instanceof Error) {
+        return verbose ? value.stack : `${value.code ? `${value.code} ` : ''}${value.message}`;
+    }
+    if (typeof value === 'string') return value;
+    return util.inspect(value, { depth: 4, breakLength: Infinity, compact: true });
+}
+
+// Appends to `file`, renaming it to file.1, file.2, ... once it grows past maxSize
+function createRotatingFile({ file, maxSize, maxFiles }) {
+    const filePath = path.resolve(file);
+    let stream = null;
+    let size = 0;
+
+    const open = () => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        // Open synchronously so a rotation can never rename the file before the stream has it
+        const fd = fs.openSync(filePath, 'a');
+        size = fs.fstatSync(fd).size;
+        stream = fs.createWriteStream(filePath, { fd });
+    };
+
+    const rotate = () => {
+        stream.end();
+        for (let index = maxFiles - 1; index >= 1; index--) {
+            const from = `${filePath}.${index}`;
+            if (fs.existsSync(from)) fs.renameSync(from, `${filePath}.${index + 1}`);
+        }
+        fs.renameSync(filePath, `${filePath}.1`);
+        const oldest = `${filePath}.${maxFiles + 1}`;
+        if (fs.existsSync(oldest)) fs.unlinkSync(oldest);
+        open();
+    };
+
+    open();
+
+    return {
+        write(line) {
+            const bytes = Buffer.byteLength(line);
+            if (size > 0 && size + bytes > maxSize) rotate();
+            stream.write(line);
+            size += bytes;
+        },
+        close() {
+            stream.end();
+        }
+    };
+}
+
+function createLogger(options) {
+    let settings = options;
+    let threshold = LEVELS.indexOf(settings.level);
+    let file = null;
+    // key → { last: timestamp of the last printed line, suppressed: lines skipped since }
+    const samples = new Map();
+
+    const openFile = () => {
+        if (file) file.close();
+        file = null;
+        if (!settings.file) return;
+        try {
+            file = createRotatingFile(settings);
+        } catch (error) {
+            process.stderr.write(`❌ Cannot write log file ${settings.file}: ${error.message}\n`);
+        }
+    };
+
+    const write = (level, message, fields) => {
+        const time = new Date();
+        let line;
+        if (settings.format === 'json') {
+            const entry = { time: time.toISOString(), level, msg: message };
+            Object.entries(fields || {}).forEach(([key, value]) => {
+                entry[key] = value instanceof Error ? serializeError(value) : value;
+            });
+            line = `${JSON.stringify(entry)}\n`;
+        } else {
+            const verbose = threshold >= LEVELS.indexOf('debug');
+            const details = Object.entries(fields || {})
+                .map(([key, value]) => `${key}=${formatValue(value, verbose)}`)
+                .join(' ');
+            line = `${message}${details ? ` ${details}` : ''}\n`;
+        }
+
+        const output = level === 'error' || level === 'warn' ? process.stderr : process.stdout;
+        output.write(line);
+        if (file) {
+            file.write(settings.format === 'json' ? line : `${time.toISOString()} ${level.toUpperCase().padEnd(5)} ${line}`);
+        }
+    };
+
+    const logger = {
+        isEnabled(level) {
+            return LEVELS.indexOf(level) <= threshold;
+        },
+
+        // Log at most once per sampleInterval for each key (usually an OSC address)
+        sampled(level, key, message, fields) {
+            if (!logger.isEnabled(level)) return;
+            if (settings.sampleInterval === 0) {
+                write(level, message, fields);
+                return;
+            }
+            const now = Date.now();
+            const sample = samples.get(key);
+            if (sample && now - sample.last < settings.sampleInterval) {
+                sample.suppressed++;
+                return;
+            }
+            const suppressed = sample ? sample.suppressed : 0;
+            samples.set(key, { last: now, suppressed: 0 });
+            write(level, message, suppressed > 0 ? { ...fields, suppressed } : fields);
+        },
+
+        // Apply new options at runtime, e.g. after the config was saved from the panel
+        configure(next) {
+            const fileChanged = next.file !== settings.file || next.maxSize !== settings.maxSize || next.maxFiles !== settings.maxFiles;
+            settings = next;
+            threshold = LEVELS.indexOf(settings.level);
+            samples.clear();
+            if (fileChanged) openFile();
+        },
+
+        options() {
+            return { ...settings };
+        },
+
+        close() {
+            if (file) file.close();
+            file = null;
+        }
+    };
+
+    LEVELS.forEach((level) => {
+        logger[level] = (message, fields) => {
+            if (logger.isEnabled(level)) write(level, message, fields);
+        };
+    });
+
+    openFile();
+    return logger;
+}
+
+module.exports = { LEVELS, parseLoggerOptions, createLogger };
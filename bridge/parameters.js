@@ -0,0 +1,206 @@
+// bridge/parameters.js - Check panel messages against the parameter registry
+//
+// The registry lists every address TouchDesigner understands, with the type and
+// range of each argument. Addresses may use OSC patterns to cover families:
+// { "allowUnknown": false, "parameters": [
+//     { "address": "/{pre,post}/zoom", "args": [{ "name": "x", "type": "f", "min": 0, "max": 1 }, ...] } ] }
+const fs = require('fs');
+const path = require('path');
+const { compilePattern } = require('../src/lib/oscAddress');
+
+// reject = drop invalid messages, clamp = pull out-of-range numbers into range
+// (and drop anything else that is invalid), pass = forward everything and only report
+const VALIDATION_MODES = ['reject', 'clamp', 'pass'];
+
+// Numeric tags are interchangeable (bare JSON numbers arrive as 'f'), and so are the string tags
+const TYPE_FAMILIES = {
+    f: 'number', d: 'number', i: 'number', h: 'number',
+    s: 'string', S: 'string',
+    T: 'boolean', F: 'boolean'
+};
+const KNOWN_TYPES = ['f', 'd', 'i', 'h', 's', 'S', 'c', 'T', 'F', 'N', 'I', 'r', 'm', 'b', 't'];
+
+// OSC 1.0: printable ASCII except space and # * , / ? [ ] { }, in one or more /parts
+const ADDRESS_PART = /^[^\x00-\x20\x7f-\uffff#*,/?[\]{}]+$/;
+
+function isValidAddress(address) {
+    return address.length > 1 && address.split('/').slice(1).every(part => ADDRESS_PART.test(part));
+}
+
+function familyOf(type) {
+    return TYPE_FAMILIES[type] || type;
+}
+
+function parseArg(arg, index, address) {
+    const label = `${address} argument ${index + 1}`;
+    if (!arg || typeof arg !== 'object') {
+        throw new Error(`${label} must be an object`);
+    }
+    if (!KNOWN_TYPES.includes(arg.type)) {
+        throw new Error(`${label} has an unknown type ${JSON.stringify(arg.type)}`);
+    }
+    const hasRange = arg.min !== undefined || arg.max !== undefined;
+    if (hasRange && familyOf(arg.type) !== 'number') {
+        throw new Error(`${label} is not numeric and cannot have a min or max`);
+    }
+    const min = arg.min === undefined ? -Infinity : arg.min;
+    const max = arg.max === undefined ? Infinity : arg.max;
+    if (typeof min !== 'number' || typeof max !== 'number' || Number.isNaN(min) || Number.isNaN(max) || min > max) {
+        throw new Error(`${label} has an invalid range ${JSON.stringify([arg.min, arg.max])}`);
+    }
+    return { name: typeof arg.name === 'string' ? arg.name : `arg${index + 1}`, type: arg.type, min, max };
+}
+
+// Validate a plain registry object; throws like the other config parsers
+function parseParameters(registry) {
+    if (!registry || typeof registry !== 'object' || !Array.isArray(registry.parameters)) {
+        throw new Error('Parameter registry must be an object with a "parameters" array');
+    }
+    const parameters = registry.parameters.map((parameter) => {
+        if (!parameter || typeof parameter.address !== 'string' || !parameter.address.startsWith('/')) {
+            throw new Error(`Invalid parameter address: ${JSON.stringify(parameter && parameter.address)}`);
+        }
+        if (!Array.isArray(parameter.args)) {
+            throw new Error(`Parameter ${parameter.address} needs an "args" array`);
+        }
+        const pattern = /[*?[{]/.test(parameter.address) ? compilePattern(parameter.address) : null;
+        return {
+            address: parameter.address,
+            matches: pattern ? (address) => pattern.test(address) : (address) => address === parameter.address,
+            args: parameter.args.map((arg, index) => parseArg(arg, index, parameter.address))
+        };
+    });
+    return { allowUnknown: Boolean(registry.allowUnknown), parameters };
+}
+
+// Read the registry file; null when there is none, which turns validation off
+function loadParameters(file) {
+    const registryPath = path.resolve(file);
+    if (!fs.existsSync(registryPath)) {
+        return null;
+    }
+    return parseParameters(JSON.parse(fs.readFileSync(registryPath, 'utf8')));
+}
+
+// Numeric value of a typed argument as built by the bridge ('h' is split into 32-bit halves)
+function numericValue(arg) {
+    if (arg.type === 'h') {
+        return arg.value.high * 0x100000000 + arg.value.low;
+    }
+    return arg.value;
+}
+
+function withNumericValue(arg, value) {
+    if (arg.type === 'h') {
+        const whole = Math.trunc(value);
+        const high = Math.floor(whole / 0x100000000);
+        return { type: 'h', value: { high, low: whole - high * 0x100000000 } };
+    }
+    return { type: arg.type, value: arg.type === 'i' ? Math.trunc(value) : value };
+}
+
+// One line per problem for the console and the panel's error message
+function describeProblem(problem) {
+    const range = `${problem.min ?? '-∞'} to ${problem.max ?? '∞'}`;
+    switch (problem.problem) {
+        case 'invalid_address':
+            return `${problem.address} is not a valid OSC address`;
+        case 'unknown_address':
+            return `${problem.address} is not in the parameter registry`;
+        case 'arg_count':
+            return `${problem.address} takes ${problem.expected} arguments, got ${problem.received}`;
+        case 'arg_type':
+            return `${problem.address} ${problem.name} must be '${problem.expected}', got '${problem.received}'`;
+        case 'out_of_range':
+            return `${problem.address} ${problem.name} = ${problem.value} is outside ${range}`;
+        default:
+            return `${problem.address}: ${problem.problem}`;
+    }
+}
+
+function createValidator({ registry, mode }) {
+    if (!VALIDATION_MODES.includes(mode)) {
+        throw new Error(`Validation mode must be one of ${VALIDATION_MODES.join(', ')}, got ${JSON.stringify(mode)}`);
+    }
+
+    const lookup = (address) => registry.parameters.find(parameter => parameter.matches(address));
+
+    // Problems with one { address, args } message, plus the message with every
+    // out-of-range number clamped into range
+    const check = (message) => {
+        if (!isValidAddress(message.address)) {
+            return { problems: [{ problem: 'invalid_address' }], clamped: message };
+        }
+        const parameter = lookup(message.address);
+        if (!parameter) {
+            return { problems: registry.allowUnknown ? [] : [{ problem: 'unknown_address' }], clamped: message };
+        }
+        if (message.args.length !== parameter.args.length) {
+            return {
+                problems: [{ problem: 'arg_count', expected: parameter.args.length, received: message.args.length }],
+                clamped: message
+            };
+        }
+
+        const problems = [];
+        const args = message.args.map((arg, index) => {
+            const spec = parameter.args[index];
+            if (familyOf(arg.type) !== familyOf(spec.type)) {
+                problems.push({ problem: 'arg_type', arg: index, name: spec.name, expected: spec.type, received: arg.type });
+                return arg;
+            }
+            if (familyOf(spec.type) !== 'number') {
+                return arg;
+            }
+            const value = numericValue(arg);
+            if (value >= spec.min && value <= spec.max) {
+                return arg;
+            }
+            const problem = { problem: 'out_of_range', arg: index, name: spec.name, value };
+            if (Number.isFinite(spec.min)) problem.min = spec.min;
+            if (Number.isFinite(spec.max)) problem.max = spec.max;
+            problems.push(problem);
+            return withNumericValue(arg, Math.min(Math.max(value, spec.min), spec.max));
+        });
+        return { problems, clamped: { address: message.address, args } };
+    };
+
+    return {
+        mode,
+
+        // Validate an OSC message or bundle as built by the bridge. Returns
+        //   action: 'ok' | 'clamped' | 'rejected' | 'passed'
+        //   packet: what to send on (null when rejected)
+        //   problems: [{ address, problem, arg?, name?, ... }]
+        validate(packet) {
+            const messages = packet.packets ? packet.packets : [packet];
+            const problems = [];
+            const clamped = messages.map((message) => {
+                const result = check(message);
+                result.problems.forEach(problem => problems.push({ address: message.address, ...problem }));
+                return result.clamped;
+            });
+
+            if (problems.length === 0) {
+                return { action: 'ok', packet, problems };
+            }
+            if (mode === 'pass') {
+                return { action: 'passed', packet, problems };
+            }
+            // A bundle goes out whole or not at all, like the bridge's other bundle checks
+            if (mode === 'clamp' && problems.every(problem => problem.problem === 'out_of_range')) {
+                const fixed = packet.packets ? { timeTag: packet.timeTag, packets: clamped } : clamped[0];
+                return { action: 'clamped', packet: fixed, problems };
+            }
+            return { action: 'rejected', packet: null, problems };
+        }
+    };
+}
+
+module.exports = {
+    VALIDATION_MODES,
+    parseParameters,
+    loadParameters,
+    describeProblem,
+    createValidator
+};
@@ -0,0 +1,135 @@
+// bridge/routing.js - Route OSC addresses to one or more UDP or TCP destinations
+// OSC patterns are compiled by src/lib/oscAddress.ts, the same code the panel matches with
+const { compilePattern } = require('../src/lib/oscAddress');
+
+// A route matches either by OSC pattern (when it has wildcards) or by address prefix
+function createMatcher(match) {
+    if (/[*?[{]/.test(match)) {
+        const regex = compilePattern(match);
+        return (address) => regex.test(address);
+    }
+    if (match === '/') {
+        return () => true;
+    }
+    const prefix = match.endsWith('/') ? match.slice(0, -1) : match;
+    return (address) => address === prefix || address.startsWith(`${prefix}/`);
+}
+
+function createStats() {
+    return {
+        messages: 0,
+        bytes: 0,
+        errors: 0,
+        dropped: 0,
+        lastError: null,
+        lastSentAt: null
+    };
+}
+
+const TRANSPORTS = ['udp', 'tcp'];
+// slip = OSC 1.1 SLIP, length = OSC 1.0 int32 size prefix
+const TCP_FRAMINGS = ['slip', 'length'];
+
+function validateDestination(destination, routeName) {
+    const port = parseInt(destination && destination.port);
+    if (!destination || typeof destination.host !== 'string' || !destination.host || !(port > 0 && port < 65536)) {
+        throw new Error(`Route "${routeName}" has an invalid destination: ${JSON.stringify(destination)}`);
+    }
+
+    const transport = destination.transport || 'udp';
+    if (!TRANSPORTS.includes(transport)) {
+        throw new Error(`Route "${routeName}" has an unknown transport "${transport}" (use ${TRANSPORTS.join(' or ')})`);
+    }
+    if (transport === 'udp') {
+        return { host: destination.host, port, transport };
+    }
+
+    const framing = destination.framing || 'slip';
+    if (!TCP_FRAMINGS.includes(framing)) {
+        throw new Error(`Route "${routeName}" has an unknown TCP framing "${framing}" (use ${TCP_FRAMINGS.join(' or ')})`);
+    }
+    return { host: destination.host, port, transport, framing };
+}
+
+function normalizeRoute(route, index) {
+    const name = route.name || `route-${index + 1}`;
+    if (typeof route.match !== 'string' || !route.match.startsWith('/')) {
+        throw new Error(`Route "${name}" needs a "match" address prefix or pattern starting with /`);
+    }
+    if (!Array.isArray(route.destinations) || route.destinations.length === 0) {
+        throw new Error(`Route "${name}" needs at least one destination`);
+    }
+
+    return {
+        name,
+        match: route.match,
+        enabled: route.enabled !== false,
+        destinations: route.destinations.map(destination => validateDestination(destination, name)),
+        matches: createMatcher(route.match),
+        stats: createStats()
+    };
+}
+
+// Validate a list of plain route objects (as stored in the config file)
+function parseRoutes(routes) {
+    if (!Array.isArray(routes) || routes.length === 0) {
+        throw new Error('At least one route is required');
+    }
+    const routesByName = new Set();
+    return routes.map((route, index) => {
+        const normalized = normalizeRoute(route, index);
+        if (routesByName.has(normalized.name)) {
+            throw new Error(`Route name "${normalized.name}" is used twice`);
+        }
+        routesByName.add(normalized.name);
+        return normalized;
+    });
+}
+
+// Single catch-all route used when no routes are configured
+function defaultRoutes({ host, port, transport, framing }) {
+    return parseRoutes([{
+        name: 'touchdesigner',
+        match: '/',
+        destinations: [{ host, port, transport, framing }]
+    }]);
+}
+
+// Routes are checked in order and the first match wins. A disabled route still
+// claims its addresses but drops them, so muting /lights doesn't leak to TD.
+function createRouter(routes) {
+    return {
+        routes,
+
+        resolve(address) {
+            return routes.find(route => route.matches(address)) || null;
+        },
+
+        // Plain JSON view of the routing table for status messages
+        describe() {
+            return routes.map(route => ({
+                name: route.name,
+                match: route.match,
+                enabled: route.enabled,
+                destinations: route.destinations.map(destination => ({ ...destination })),
+                stats: { ...route.stats }
+            }));
+        },
+
+        // Routes without runtime statistics, as written to the config file
+        toJSON() {
+            return routes.map(route => ({
+                name: route.name,
+                match: route.match,
+                enabled: route.enabled,
+                destinations: route.destinations.map(destination => ({ ...destination }))
+            }));
+        }
+    };
+}
+
+module.exports = {
+    parseRoutes,
+    defaultRoutes,
+    createRouter
+};
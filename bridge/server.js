@@ -0,0 +1,1477 @@
+// bridge/server.js - The WebSocket-to-OSC bridge as a factory, run on its own by
+// bridge.js or mounted on a path of another HTTP server (see server.ts).
+// The socket protocol is shared with the panel in src/lib/protocol.ts, so the
+// bridge has to run under tsx.
+const WebSocket = require('ws');
+const osc = require('osc');
+const dgram = require('dgram');
+const fs = require('fs');
+const http = require('http');
+const https = require('https');
+const { createRouter } = require('./routing');
+const { parseBridgeConfig, loadBridgeConfig, saveBridgeConfig } = require('./config');
+const { createTDProbe } = require('./tdProbe');
+const { createAuth, createLoginLimiter } = require('./auth');
+const { createTCPConnection } = require('./tcpTransport');
+const { createDiscovery, localAddresses } = require('./discovery');
+const { createBridgeStats } = require('./stats');
+const { parseLoggerOptions, createLogger } = require('./logger');
+const { createRecorder, createPlayer, listSessions, loadSession } = require('./session');
+const { loadParameters, describeProblem, createValidator } = require('./parameters');
+const {
+    PROTOCOL_VERSION,
+    MIN_PROTOCOL_VERSION,
+    parseClientMessage,
+    helloMessage,
+    negotiateVersion,
+    describeVersionMismatch
+} = require('../src/lib/protocol');
+require('dotenv').config();
+
+// Configuration with environment variable fallbacks
+const WEBSOCKET_PORT = parseInt(process.env.BRIDGE_WEBSOCKET_PORT) || 8080;
+const TOUCHDESIGNER_HOST = process.env.TOUCHDESIGNER_HOST || '127.0.0.1';
+const TOUCHDESIGNER_PORT = parseInt(process.env.TOUCHDESIGNER_PORT) || 7000;
+const UDP_LISTEN_HOST = process.env.BRIDGE_UDP_LISTEN_HOST || '127.0.0.1';
+const UDP_LISTEN_PORT = parseInt(process.env.BRIDGE_UDP_LISTEN_PORT) || 57121;
+// Routing table and TouchDesigner settings; admins can change them from the panel
+const CONFIG_FILE = process.env.BRIDGE_ROUTES_FILE || 'bridge.routes.json';
+// Transport for the default TouchDesigner destination when the config file has no routes
+const TOUCHDESIGNER_TRANSPORT = process.env.TOUCHDESIGNER_TRANSPORT || 'udp';
+const TOUCHDESIGNER_TCP_FRAMING = process.env.TOUCHDESIGNER_TCP_FRAMING || 'slip';
+// TouchDesigner sends this address (e.g. from an Execute DAT onStart) to ask the panels for their full state
+const RESYNC_ADDRESS = process.env.BRIDGE_RESYNC_ADDRESS || '/resync';
+// Clients that send heartbeats are dropped after this long without one (0 = never)
+const HEARTBEAT_TIMEOUT = parseInt(process.env.BRIDGE_HEARTBEAT_TIMEOUT ?? '15000') || 0;
+// Optional TLS for wss:// - both paths must point to PEM files
+const TLS_CERT_FILE = process.env.BRIDGE_TLS_CERT || '';
+const TLS_KEY_FILE = process.env.BRIDGE_TLS_KEY || '';
+// Access control - without any PIN every client has full control
+const ADMIN_PIN = process.env.BRIDGE_ADMIN_PIN || '';
+const OPERATOR_PIN = process.env.BRIDGE_OPERATOR_PIN || '';
+const VIEWER_PIN = process.env.BRIDGE_VIEWER_PIN || '';
+const MAX_LOGIN_ATTEMPTS = 5;
+// Lockout after MAX_LOGIN_ATTEMPTS wrong PINs from one IP, doubled per repeat up to the max
+const LOGIN_LOCKOUT = 60 * 1000;
+const MAX_LOGIN_LOCKOUT = 15 * 60 * 1000;
+// TouchDesigner health probe: TD echoes this address back to the UDP listen port
+const TD_PING_ADDRESS = process.env.BRIDGE_TD_PING_ADDRESS || '/ping';
+const TD_PROBE_INTERVAL = parseInt(process.env.BRIDGE_TD_PROBE_INTERVAL ?? '5000') || 0;
+const TD_PROBE_MAX_MISSED = parseInt(process.env.BRIDGE_TD_PROBE_MAX_MISSED) || 3;
+// State changes reach the panels at once, RTT updates at most this often
+const TD_STATUS_REFRESH_INTERVAL = 30000;
+// LAN discovery: advertised over mDNS and listed by GET /discover so panels can pick a bridge
+const BRIDGE_NAME = process.env.BRIDGE_NAME || `OSC Bridge on ${require('os').hostname()}`;
+const MDNS_ENABLED = process.env.BRIDGE_MDNS !== 'false';
+const DISCOVERY_PATH = '/discover';
+// Monitoring endpoints; /stats lists client IPs, so it needs the admin PIN when PINs are set
+const HEALTH_PATH = '/health';
+const STATS_PATH = '/stats';
+// Recorded sessions for rehearsal playback
+const SESSIONS_DIR = process.env.BRIDGE_SESSIONS_DIR || 'sessions';
+// Parameter registry: known addresses with argument types and ranges, and what to do with bad messages
+const PARAMETERS_FILE = process.env.BRIDGE_PARAMETERS_FILE || 'bridge.parameters.json';
+const VALIDATION_MODE = process.env.BRIDGE_VALIDATION || 'clamp';
+// Each client hears about the same problem with an address at most this often
+const VALIDATION_NOTICE_INTERVAL = 1000;
+// Logging - info keeps the console readable during a show; per-message lines are debug/trace
+const LOG_LEVEL = process.env.BRIDGE_LOG_LEVEL || 'info';
+const LOG_FORMAT = process.env.BRIDGE_LOG_FORMAT || 'pretty';
+const LOG_SAMPLE_INTERVAL = parseInt(process.env.BRIDGE_LOG_SAMPLE_INTERVAL ?? '1000');
+const LOG_FILE = process.env.BRIDGE_LOG_FILE || '';
+// The log file has to be in here, wherever it is configured
+const LOG_DIR = process.env.BRIDGE_LOG_DIR || 'logs';
+const LOG_MAX_SIZE = parseInt(process.env.BRIDGE_LOG_MAX_SIZE) || 10 * 1024 * 1024;
+const LOG_MAX_FILES = parseInt(process.env.BRIDGE_LOG_MAX_FILES) || 5;
+
+// The environment only supplies defaults for what the config file doesn't set
+const CONFIG_DEFAULTS = {
+    touchdesigner: { host: TOUCHDESIGNER_HOST, port: TOUCHDESIGNER_PORT, probeInterval: TD_PROBE_INTERVAL },
+    destination: { transport: TOUCHDESIGNER_TRANSPORT, framing: TOUCHDESIGNER_TCP_FRAMING },
+    logging: {
+        level: LOG_LEVEL,
+        format: LOG_FORMAT,
+        sampleInterval: LOG_SAMPLE_INTERVAL,
+        file: LOG_FILE,
+        maxSize: LOG_MAX_SIZE,
+        maxFiles: LOG_MAX_FILES,
+        directory: LOG_DIR
+    }
+};
+
+// Where and how much the bridge writes to disk; only the environment and the config file set these
+const LOG_FILE_SETTINGS = ['file', 'maxSize', 'maxFiles'];
+
+// Set up the bridge: config, UDP socket, TCP connections and the WebSocket server.
+// Standalone it creates its own HTTP(S) server on BRIDGE_WEBSOCKET_PORT. Pass
+// `server` to share one (e.g. with Next.js): the bridge then only handles
+// WebSocket upgrades and HTTP requests on `path`, and `port` is what it advertises.
+// Startup errors are logged and thrown; the caller decides whether to exit.
+function createBridge(options = {}) {
+    const embedded = Boolean(options.server);
+    const basePath = (options.path || '').replace(/\/$/, '');
+    const port = options.port || WEBSOCKET_PORT;
+    // BRIDGE_TLS_* only apply to the bridge's own server
+    const secure = options.secure ?? (!embedded && Boolean(TLS_CERT_FILE));
+
+    // Start with the environment's logging settings; the config file may override them below
+    let log;
+    try {
+        log = createLogger(parseLoggerOptions({}, CONFIG_DEFAULTS.logging));
+    } catch (error) {
+        console.error(`❌ Invalid logging settings: ${error.message}`);
+        throw error;
+    }
+
+    const fail = (message) => {
+        log.error(`❌ ${message}`);
+        log.close();
+        return new Error(message);
+    };
+
+    log.info('🌉 Starting OSC WebSocket-to-UDP Bridge...');
+    log.info(`📦 Using osc library version: ${require('osc/package.json').version}`);
+
+    let bridgeConfig;
+    let router;
+    try {
+        bridgeConfig = loadBridgeConfig({ file: CONFIG_FILE, defaults: CONFIG_DEFAULTS });
+        router = createRouter(bridgeConfig.routes);
+    } catch (error) {
+        throw fail(`Failed to load bridge config from ${CONFIG_FILE}: ${error.message}`);
+    }
+    log.configure(bridgeConfig.logging);
+
+    log.info(`⚙️  Configuration:`);
+    log.info(`   WebSocket: ${embedded ? `${basePath} on port ${port}` : `port ${port}`}, protocol v${PROTOCOL_VERSION} (panels v${MIN_PROTOCOL_VERSION}+)`);
+    log.info(`   TouchDesigner Host: ${bridgeConfig.touchdesigner.host}`);
+    log.info(`   TouchDesigner Port: ${bridgeConfig.touchdesigner.port}`);
+    log.info(`   UDP Listen: ${UDP_LISTEN_HOST}:${UDP_LISTEN_PORT}`);
+    log.info(`   Logging: ${bridgeConfig.logging.level}${bridgeConfig.logging.file ? ` → ${bridgeConfig.logging.file}` : ''}`);
+
+    let validator = null;
+    try {
+        const registry = loadParameters(PARAMETERS_FILE);
+        if (registry) {
+            validator = createValidator({ registry, mode: VALIDATION_MODE });
+            log.info(`   Validation: ${VALIDATION_MODE} (${registry.parameters.length} parameters from ${PARAMETERS_FILE}${registry.allowUnknown ? ', unknown addresses allowed' : ''})`);
+        } else {
+            log.warn(`⚠️  No parameter registry at ${PARAMETERS_FILE}, messages are not validated`);
+        }
+    } catch (error) {
+        throw fail(`Failed to load parameter registry from ${PARAMETERS_FILE}: ${error.message}`);
+    }
+
+    const auth = createAuth({ adminPin: ADMIN_PIN, operatorPin: OPERATOR_PIN, viewerPin: VIEWER_PIN });
+    const loginLimiter = createLoginLimiter({
+        maxAttempts: MAX_LOGIN_ATTEMPTS,
+        lockout: LOGIN_LOCKOUT,
+        maxLockout: MAX_LOGIN_LOCKOUT
+    });
+    log.info(`   Authentication: ${auth.enabled ? `PIN required (anonymous clients: ${auth.defaultRole || 'none'})` : 'disabled'}`);
+
+    logRoutes();
+
+    function logRoutes() {
+        log.info(`🧭 Routes:`);
+        router.routes.forEach(route => {
+            const destinations = route.destinations.map(describeDestination).join(', ');
+            log.info(`   ${route.enabled ? '•' : '○'} ${route.name}: ${route.match} → ${destinations}${route.enabled ? '' : ' (disabled)'}`);
+        });
+    }
+
+    // Last known arguments per OSC address, sent to panels as a snapshot when they join
+    const parameterState = new Map();
+
+    // Traffic, drop and error counters for /health and /stats
+    const bridgeStats = createBridgeStats();
+
+    // Session recording of everything the panels send, and playback of it.
+    // Played back packets go out like panel input and show up on every panel.
+    const recorder = createRecorder({
+        directory: SESSIONS_DIR,
+        onError: (error) => {
+            log.error(`❌ Recording ${recorder.status().name} stopped, could not write the session file`, { error });
+            broadcast({ type: 'recorderState', ...recorder.status() });
+        }
+    });
+    const player = createPlayer({
+        send: (packet) => {
+            sendOSCPacket(packet);
+            relayToPeers(null, packet);
+        },
+        onChange: (status) => broadcast({ type: 'replayState', ...status })
+    });
+
+    // Create UDP socket using Node.js dgram for better reliability
+    const udpSocket = dgram.createSocket('udp4');
+    let udpSocketReady = false;
+
+    // Track UDP port readiness
+    let udpPortReady = false;
+
+    // HTTP(S) server carrying the WebSocket. Plain requests get a short answer so the
+    // bridge URL can be opened in a browser to accept a self-signed certificate.
+    // An embedding server owns its TLS and hands requests over through handleRequest().
+    let server = options.server;
+    if (!embedded && (TLS_CERT_FILE || TLS_KEY_FILE)) {
+        try {
+            server = https.createServer({
+                cert: fs.readFileSync(TLS_CERT_FILE),
+                key: fs.readFileSync(TLS_KEY_FILE)
+            });
+        } catch (error) {
+            throw fail(`Failed to load TLS certificate (BRIDGE_TLS_CERT=${TLS_CERT_FILE}, BRIDGE_TLS_KEY=${TLS_KEY_FILE}): ${error.message}`);
+        }
+        log.info(`🔐 TLS enabled - panels must connect with wss://`);
+    } else if (!embedded) {
+        server = http.createServer();
+    }
+
+    if (!embedded) {
+        server.on('request', handleRequest);
+    }
+
+    // Path of a request relative to basePath, or null when it isn't for the bridge
+    function bridgePath(request) {
+        const pathname = new URL(request.url, 'http://bridge').pathname;
+        if (!basePath) return pathname;
+        if (pathname === basePath) return '/';
+        return pathname.startsWith(`${basePath}/`) ? pathname.slice(basePath.length) : null;
+    }
+
+    // Answer a request for the bridge; false leaves it to the embedding server
+    function handleRequest(request, response) {
+        const path = bridgePath(request);
+        if (path === null) return false;
+        handleHttpRequest(request, response, path);
+        return true;
+    }
+
+    function handleHttpRequest(request, response, path) {
+
+        // Panels are served from another origin, so the JSON endpoints have to allow it.
+        // The Authorization header for /stats makes browsers ask first.
+        if (request.method === 'OPTIONS') {
+            response.writeHead(204, {
+                'Access-Control-Allow-Origin': '*',
+                'Access-Control-Allow-Methods': 'GET',
+                'Access-Control-Allow-Headers': 'Authorization'
+            });
+            response.end();
+            return;
+        }
+
+        if (request.method === 'GET' && path === DISCOVERY_PATH) {
+            sendJSON(response, 200, { bridges: discovery.bridges() });
+            return;
+        }
+
+        if (request.method === 'GET' && path === HEALTH_PATH) {
+            const health = bridgeHealth();
+            sendJSON(response, health.status === 'ok' ? 200 : 503, health);
+            return;
+        }
+
+        if (request.method === 'GET' && path === STATS_PATH) {
+            // Same rule as the admin messages: without PINs everyone is admin
+            const clientIP = request.socket.remoteAddress;
+            const lockedFor = loginLimiter.lockedFor(clientIP);
+            if (lockedFor > 0) {
+                sendJSON(response, 429, { error: 'locked_out', message: `Too many wrong PINs, try again in ${Math.ceil(lockedFor / 1000)}s` });
+                return;
+            }
+            const token = (request.headers.authorization || '').replace(/^Bearer\s+/i, '');
+            const tokenRole = auth.authenticate(token);
+            if (token && !tokenRole) loginLimiter.fail(clientIP);
+            const role = tokenRole || auth.defaultRole;
+            if (!auth.hasRole(role, 'admin')) {
+                sendJSON(response, 401, { error: 'unauthorized', message: 'Send the admin PIN as a Bearer token' });
+                return;
+            }
+            sendJSON(response, 200, bridgeStatsReport());
+            return;
+        }
+
+        response.writeHead(200, { 'Content-Type': 'text/plain' });
+        response.end('OSC bridge is running. If you came here to accept the certificate, you can close this tab and reconnect the panel.\n');
+    }
+
+    function sendJSON(response, status, body) {
+        response.writeHead(status, {
+            'Content-Type': 'application/json',
+            'Access-Control-Allow-Origin': '*',
+            'Cache-Control': 'no-store'
+        });
+        response.end(JSON.stringify(body));
+    }
+
+    // Cheap liveness summary: degraded while the UDP socket can't send
+    function bridgeHealth() {
+        return {
+            status: udpSocketReady ? 'ok' : 'degraded',
+            uptime: bridgeStats.uptime(),
+            udpReady: udpSocketReady,
+            clients: wss.clients.size,
+            touchdesigner: bridgeConfig.touchdesigner.probeInterval > 0 ? tdProbe.status() : null
+        };
+    }
+
+    function bridgeStatsReport() {
+        return {
+            ...bridgeStats.toJSON(),
+            udpReady: udpSocketReady,
+            clients: [...wss.clients].map((client) => ({
+                ip: client.clientIP,
+                role: client.role,
+                connectedAt: client.connectedAt,
+                lastHeartbeat: client.lastHeartbeat || null,
+                // Negotiated in the panel's hello; null for panels from before the protocol
+                protocolVersion: client.protocolVersion ?? null
+            })),
+            routes: router.describe(),
+            tcp: [...tcpConnections.values()].map((connection) => ({
+                host: connection.host,
+                port: connection.port,
+                framing: connection.framing,
+                connected: connection.isConnected()
+            })),
+            touchdesigner: bridgeConfig.touchdesigner.probeInterval > 0 ? tdProbe.status() : null
+        };
+    }
+
+    const discovery = createDiscovery({
+        name: BRIDGE_NAME,
+        port,
+        secure,
+        path: basePath,
+        onError: (error) => log.warn(`⚠️  mDNS error: ${error.message}`)
+    });
+
+    // Create WebSocket server for web clients. Upgrades are routed by hand so an
+    // embedding server keeps its own sockets on other paths (e.g. Next.js hot reload).
+    const wss = new WebSocket.Server({
+        noServer: true,
+        perMessageDeflate: false
+    });
+
+    server.on('upgrade', (request, socket, head) => {
+        if (bridgePath(request) === null) return;
+        wss.handleUpgrade(request, socket, head, (ws) => wss.emit('connection', ws, request));
+    });
+
+    // Setup UDP socket with dgram
+    udpSocket.on('listening', () => {
+        const address = udpSocket.address();
+        udpSocketReady = true;
+        log.info(`✅ UDP socket ready - bound to ${address.address}:${address.port}`);
+        log.info(`🎯 Routing OSC to ${router.routes.length} route(s)`);
+
+        // Check the network once, then keep probing TouchDesigner itself
+        setTimeout(() => {
+            testNetworkConnectivity();
+            tdProbe.start();
+        }, 1000);
+    });
+
+    udpSocket.on('error', (error) => {
+        log.error('❌ UDP Socket Error', { error });
+        log.error('❌ This might be a firewall or port binding issue');
+    });
+
+    udpSocket.on('message', (msg, rinfo) => {
+        handleIncomingOSC(msg, rinfo, 'UDP');
+    });
+
+    // OSC arriving from TouchDesigner, over UDP or back over a TCP destination
+    function handleIncomingOSC(msg, rinfo, transport) {
+        log.sampled('trace', `in:${rinfo.address}:${rinfo.port}`, `📥 Received ${transport} message from ${rinfo.address}:${rinfo.port}`);
+        let packet;
+        try {
+            packet = osc.readPacket(msg, {});
+        } catch (error) {
+            log.sampled('warn', `raw:${rinfo.address}`, `📥 Unreadable ${transport} packet from ${rinfo.address}`, { raw: msg.toString() });
+            return;
+        }
+
+        // Forward every message (bundles are flattened) to the web clients so the
+        // panel can reflect what TouchDesigner is actually doing
+        const messages = flattenPacket(packet);
+        messages.forEach((oscMessage) => {
+            log.sampled('debug', `in:${oscMessage.address}`, `📥 OSC: ${oscMessage.address} [${oscMessage.args.join(', ')}]`);
+            if (oscMessage.address === TD_PING_ADDRESS) {
+                tdProbe.handleReply(oscMessage.args);
+                return;
+            }
+            if (oscMessage.address === RESYNC_ADDRESS) {
+                log.info('🔁 TouchDesigner requested a resync');
+                broadcast({ type: 'resync', reason: 'touchdesigner' });
+                return;
+            }
+            parameterState.set(oscMessage.address, oscMessage.args);
+            broadcast({
+                type: 'osc',
+                source: 'touchdesigner',
+                address: oscMessage.address,
+                args: oscMessage.args
+            });
+        });
+    }
+
+    // One persistent connection per TCP destination, opened up front so the first
+    // message doesn't wait for the handshake
+    const tcpConnections = new Map();
+    syncTCPConnections();
+
+    // Open connections for new TCP destinations and close the ones no route uses anymore
+    function syncTCPConnections() {
+        const wanted = new Map();
+        router.routes.forEach(route => {
+            route.destinations
+                .filter(destination => destination.transport === 'tcp')
+                .forEach(destination => wanted.set(destinationKey(destination), destination));
+        });
+
+        tcpConnections.forEach((connection, key) => {
+            if (!wanted.has(key)) {
+                connection.close();
+                tcpConnections.delete(key);
+            }
+        });
+
+        wanted.forEach((destination, key) => {
+            if (tcpConnections.has(key)) return;
+            tcpConnections.set(key, createTCPConnection({
+                host: destination.host,
+                port: destination.port,
+                framing: destination.framing,
+                onPacket: (packet, rinfo) => handleIncomingOSC(packet, rinfo, 'TCP'),
+                onStateChange: (connected, error) => {
+                    if (connected) {
+                        log.info(`✅ TCP connected to ${describeDestination(destination)}`);
+                    } else {
+                        log.warn(`⚠️  TCP connection to ${describeDestination(destination)} lost${error ? `: ${error.code || error.message}` : ''}, reconnecting`);
+                    }
+                }
+            }));
+        });
+    }
+
+    function destinationKey({ host, port, transport, framing }) {
+        return `${transport}:${host}:${port}:${framing || ''}`;
+    }
+
+    function describeDestination({ host, port, transport, framing }) {
+        return transport === 'tcp' ? `tcp://${host}:${port} (${framing})` : `${host}:${port}`;
+    }
+
+    // Periodic TouchDesigner liveness check, reported to the panels as tdStatus
+    let lastTDStatusBroadcast = 0;
+    const tdProbe = createTDProbe({
+        host: bridgeConfig.touchdesigner.host,
+        port: bridgeConfig.touchdesigner.port,
+        address: TD_PING_ADDRESS,
+        interval: bridgeConfig.touchdesigner.probeInterval,
+        maxMissed: TD_PROBE_MAX_MISSED,
+        send: (buffer, host, port, callback) => {
+            if (!udpSocketReady) {
+                callback(null);
+                return;
+            }
+            udpSocket.send(buffer, port, host, callback);
+        },
+        onChange: (status, previousState) => {
+            // Every reply updates the RTT; panels hear about that only now and then
+            const now = Date.now();
+            if (status.state !== previousState) {
+                logTDStatus(status);
+            } else if (now - lastTDStatusBroadcast < TD_STATUS_REFRESH_INTERVAL) {
+                return;
+            }
+            lastTDStatusBroadcast = now;
+            broadcast({ type: 'tdStatus', ...status });
+            // TD is back after being down and may have lost its parameters
+            if ((previousState === 'offline' || previousState === 'unreachable') && status.state === 'online') {
+                log.info('🔁 TouchDesigner came back, asking panels to resync');
+                broadcast({ type: 'resync', reason: 'touchdesigner' });
+            }
+        }
+    });
+
+    function logTDStatus(status) {
+        const target = `${status.host}:${status.port}`;
+        if (status.state === 'online') {
+            log.info(`✅ TouchDesigner at ${target} is responding (${status.rtt}ms)`);
+        } else if (status.state === 'offline') {
+            log.warn(`⚠️  TouchDesigner at ${target} stopped answering ${TD_PING_ADDRESS}`);
+            log.warn(`⚠️  Make sure TD echoes ${TD_PING_ADDRESS} back to the bridge on port ${UDP_LISTEN_PORT}`);
+        } else if (status.state === 'unreachable') {
+            log.error(`❌ Cannot reach TouchDesigner at ${target}: ${status.error}`);
+            if (status.error === 'ENETUNREACH') {
+                log.error(`\n🔧 Troubleshooting steps:`);
+                log.error(`   1. Verify ${status.host} is the correct IP address`);
+                log.error(`   2. Check if the target device is on the same network`);
+                log.error(`   3. Try pinging: ping ${status.host}`);
+                log.error(`   4. Check firewall settings on both machines`);
+                log.error(`   5. Verify TouchDesigner is running with OSC In CHOP on port ${status.port}`);
+                log.error(`\n💡 For local testing, try setting TOUCHDESIGNER_HOST=127.0.0.1 in .env`);
+            }
+        }
+    }
+
+    // Bind the UDP socket
+    log.info(`🔌 Binding UDP socket to port ${UDP_LISTEN_PORT}...`);
+    try {
+        udpSocket.bind(UDP_LISTEN_PORT, UDP_LISTEN_HOST);
+    } catch (error) {
+        log.error('❌ Failed to bind UDP socket', { error });
+    }
+
+    // Unwrap OSC bundles into a flat list of { address, args } messages
+    function flattenPacket(packet) {
+        if (packet.packets) {
+            return packet.packets.reduce((all, inner) => all.concat(flattenPacket(inner)), []);
+        }
+        if (!packet.address) {
+            return [];
+        }
+        const args = packet.args === undefined ? [] : (Array.isArray(packet.args) ? packet.args : [packet.args]);
+        return [{ address: packet.address, args }];
+    }
+
+    // Send a JSON message to every logged in web client, optionally skipping one
+    function broadcast(message, except) {
+        const payload = JSON.stringify(message);
+        wss.clients.forEach((client) => {
+            if (client !== except && client.role && client.readyState === WebSocket.OPEN) {
+                client.send(payload);
+            }
+        });
+    }
+
+    // Plain JSON value of a typed OSC argument, the same shape osc.readPacket gives for UDP input
+    function plainArgValue(arg) {
+        switch (arg.type) {
+            case 'T': return true;
+            case 'F': return false;
+            case 'N':
+            case 'I': return null;
+            case 'b': return Array.from(arg.value);
+            default: return arg.value;
+        }
+    }
+
+    // Remember an accepted message or bundle and mirror it to the other panels so their stores stay in step
+    function relayToPeers(sender, packet) {
+        flattenPacket(packet).forEach(({ address, args }) => {
+            const values = args.map(plainArgValue);
+            parameterState.set(address, values);
+            broadcast({
+                type: 'osc',
+                source: 'peer',
+                address,
+                args: values
+            }, sender);
+        });
+    }
+
+    // Convert a JSON { address, args } message into an OSC message with typed arguments
+    function buildOSCMessage(message) {
+        // Validate OSC message format
+        if (!message || typeof message.address !== 'string' || !message.address.startsWith('/')) {
+            log.sampled('warn', 'invalid-address', '⚠️  Invalid OSC address', { address: message && message.address });
+            return null;
+        }
+
+        // Process and validate arguments
+        let processedArgs = [];
+        if (message.args !== undefined && message.args !== null) {
+            const args = Array.isArray(message.args) ? message.args : [message.args];
+
+            // Honour explicit { type, value } arguments, infer the type of bare values
+            try {
+                processedArgs = args.map(arg => isTypedArg(arg) ? toTypedOSCArg(arg) : inferOSCArg(arg));
+            } catch (error) {
+                log.sampled('warn', `invalid:${message.address}`, `⚠️  Invalid OSC argument for ${message.address}: ${error.message}`);
+                return null;
+            }
+        }
+
+        return {
+            address: message.address,
+            args: processedArgs
+        };
+    }
+
+    // Convert a JSON { type: 'bundle', timeTag, packets } message into an OSC bundle.
+    // timeTag is a JS timestamp in milliseconds; omit it to execute immediately.
+    function buildOSCBundle(message) {
+        if (!Array.isArray(message.packets) || message.packets.length === 0) {
+            log.warn('⚠️  Invalid OSC bundle: no packets');
+            return null;
+        }
+
+        const packets = message.packets.map(buildOSCMessage);
+        if (packets.some(packet => packet === null)) {
+            log.warn('⚠️  Invalid OSC bundle: dropping whole bundle');
+            return null;
+        }
+
+        let timeTag = { raw: [0, 1] }; // OSC "immediately"
+        if (message.timeTag !== undefined && message.timeTag !== null) {
+            if (typeof message.timeTag !== 'number' || !Number.isFinite(message.timeTag)) {
+                log.warn('⚠️  Invalid OSC bundle time tag', { timeTag: message.timeTag });
+                return null;
+            }
+            timeTag = { native: message.timeTag };
+        }
+
+        return { timeTag, packets };
+    }
+
+    // Short human readable form of an OSC message or bundle for the console
+    function describeOSCPacket(packet) {
+        if (packet.packets) {
+            return `bundle (${packet.packets.length} messages)`;
+        }
+        return `${packet.address} [${packet.args.map(describeOSCArg).join(', ')}]`;
+    }
+
+    // Split an OSC message or bundle by route and send each part to its destinations.
+    // Messages of a bundle that share a route stay together in one bundle.
+    // report(failures) is called once every destination has answered, with an
+    // entry for each message that didn't get out to one of them (see describeFailure).
+    function sendOSCPacket(packet, report = () => {}) {
+        const messages = packet.packets ? packet.packets : [packet];
+        messages.forEach(message => bridgeStats.recordMessage(message.address));
+
+        const failures = [];
+        const fail = (failed, code, route = null, destination = null) => {
+            failed.forEach(({ address }) => {
+                const failure = { address, code, route: route && route.name, destination: destination && describeDestination(destination) };
+                failures.push({ ...failure, message: describeFailure(failure) });
+            });
+        };
+
+        if (!udpSocketReady) {
+            bridgeStats.recordDropped('notReady', messages.length);
+            log.sampled('warn', 'not-ready', '⚠️  UDP socket not ready, message dropped');
+            fail(messages, 'not_ready');
+            report(failures);
+            return;
+        }
+
+        const messagesByRoute = new Map();
+        messages.forEach(message => {
+            const route = router.resolve(message.address);
+            if (!route) {
+                bridgeStats.recordDropped('noRoute');
+                log.sampled('warn', `no-route:${message.address}`, `⚠️  No route for ${message.address}, message dropped`);
+                fail([message], 'no_route');
+                return;
+            }
+            if (!route.enabled) {
+                route.stats.dropped++;
+                bridgeStats.recordDropped('disabled');
+                fail([message], 'route_disabled', route);
+                return;
+            }
+            if (!messagesByRoute.has(route)) {
+                messagesByRoute.set(route, []);
+            }
+            messagesByRoute.get(route).push(message);
+        });
+
+        // Held until every send is under way, so failures found up front can't report early
+        let pending = 1;
+        const settle = () => {
+            pending--;
+            if (pending === 0) report(failures);
+        };
+
+        messagesByRoute.forEach((routeMessages, route) => {
+            const routePacket = packet.packets
+                ? { timeTag: packet.timeTag, packets: routeMessages }
+                : routeMessages[0];
+
+            let oscBuffer;
+            try {
+                // Convert OSC packet to binary - every argument is already typed
+                oscBuffer = osc.writePacket(routePacket, { metadata: true });
+            } catch (error) {
+                route.stats.errors++;
+                route.stats.lastError = `encode: ${error.message}`;
+                bridgeStats.recordEncodeFailure();
+                log.sampled('error', `encode:${route.name}`, `❌ Failed to encode OSC message for route ${route.name}`, { error, packet: routePacket });
+                fail(routeMessages, 'encode_failed', route);
+                return;
+            }
+
+            if (log.isEnabled('trace')) {
+                log.trace(`🔍 Sending via route ${route.name}`, { bytes: oscBuffer.length, packet: routePacket });
+            }
+
+            route.destinations.forEach(destination => {
+                pending++;
+                sendToDestination(oscBuffer, route, destination, routePacket, routeMessages.length, (error) => {
+                    if (error) fail(routeMessages, error.code || 'send_failed', route, destination);
+                    settle();
+                });
+            });
+        });
+        settle();
+    }
+
+    // One line for the panel on why a message didn't reach a destination
+    function describeFailure({ address, code, route, destination }) {
+        switch (code) {
+            case 'not_ready': return `${address} was dropped: the bridge's UDP socket isn't ready`;
+            case 'no_route': return `${address} was dropped: no route matches it`;
+            case 'route_disabled': return `${address} was dropped: route ${route} is disabled`;
+            case 'encode_failed': return `${address} could not be encoded for route ${route}`;
+            default: return `${address} could not be sent to ${destination}: ${code}`;
+        }
+    }
+
+    // Send an encoded OSC buffer to one destination of a route and record the result
+    function sendToDestination(oscBuffer, route, destination, routePacket, messageCount, done) {
+        const { host, port } = destination;
+        const target = describeDestination(destination);
+
+        const deliver = (callback) => {
+            if (destination.transport === 'tcp') {
+                tcpConnections.get(destinationKey(destination)).send(oscBuffer, callback);
+            } else {
+                udpSocket.send(oscBuffer, port, host, callback);
+            }
+        };
+
+        deliver((error) => {
+            if (error) {
+                route.stats.errors++;
+                route.stats.lastError = `${error.code || error.message} (${target})`;
+                bridgeStats.recordSendError(destination.transport, error.code || 'UNKNOWN');
+                log.sampled('error', `send:${target}`, `❌ Failed to send OSC message via route ${route.name}`, { error });
+                if (error.code === 'ENETUNREACH') {
+                    log.error(`❌ Network unreachable: Cannot reach ${host}:${port}`);
+                    log.error(`❌ Please check:`);
+                    log.error(`   • Is ${host} the correct IP address?`);
+                    log.error(`   • Is the target device on the same network?`);
+                    log.error(`   • Is there a firewall blocking UDP traffic?`);
+                    log.error(`   • Is TouchDesigner running and listening on port ${port}?`);
+                } else if (error.code === 'EHOSTUNREACH') {
+                    log.error(`❌ Host unreachable: ${host} is not reachable`);
+                    log.error(`❌ Check network connectivity and IP address`);
+                } else if (error.code === 'ECONNREFUSED') {
+                    log.error(`❌ Connection refused: ${host}:${port} is not accepting connections`);
+                    log.error(`❌ Check if TouchDesigner is running and OSC In is configured`);
+                }
+            } else {
+                route.stats.messages += messageCount;
+                route.stats.bytes += oscBuffer.length;
+                route.stats.lastSentAt = Date.now();
+                if (log.isEnabled('debug')) {
+                    const key = `out:${target}:${routePacket.address || 'bundle'}`;
+                    log.sampled('debug', key, `📤 OSC → ${route.name} (${target}): ${describeOSCPacket(routePacket)}`);
+                }
+            }
+            done(error);
+        });
+    }
+
+    // Handle WebSocket connections
+    wss.on('connection', (ws, request) => {
+        const clientIP = request.socket.remoteAddress;
+        log.info(`🔗 Web client connected from ${clientIP}`);
+        ws.clientIP = clientIP;
+        ws.connectedAt = Date.now();
+        // "address problem" → when this client was last told about that validation problem
+        ws.validationNotices = new Map();
+        ws.role = auth.defaultRole;
+
+        // Handle incoming WebSocket messages
+        ws.on('message', (data) => {
+            try {
+                const decoded = JSON.parse(data.toString());
+                const parsed = parseClientMessage(decoded);
+                if (!parsed.ok) {
+                    sendError(ws, 'bad_request', parsed.error, decoded?.requestId);
+                    return;
+                }
+                const { message } = parsed;
+
+                if (message.type === 'hello') {
+                    handleHello(ws, message);
+                    return;
+                }
+
+                // Heartbeat: echo the client's timestamp back so it can measure round-trip time
+                if (message.type === 'ping') {
+                    ws.lastHeartbeat = Date.now();
+                    ws.send(JSON.stringify({ type: 'pong', id: message.id, sentAt: message.sentAt, serverTime: Date.now() }));
+                    return;
+                }
+
+                if (message.type === 'login') {
+                    handleLogin(ws, message.pin);
+                    return;
+                }
+
+                if (ADMIN_MESSAGE_TYPES.includes(message.type)) {
+                    if (!auth.hasRole(ws.role, 'admin')) {
+                        const action = message.type === 'getStats' ? 'read the bridge statistics' : 'change the bridge config';
+                        sendError(ws, 'forbidden', `Role ${ws.role || 'anonymous'} cannot ${action}`, message.requestId);
+                        return;
+                    }
+                    handleAdminMessage(ws, message);
+                    return;
+                }
+
+                // Viewers only watch; everything below changes the show
+                if (!auth.hasRole(ws.role, 'operator')) {
+                    sendError(ws, 'forbidden', `Role ${ws.role || 'anonymous'} cannot send OSC messages`, message.requestId);
+                    return;
+                }
+
+                if (SESSION_MESSAGE_TYPES.includes(message.type)) {
+                    handleSessionMessage(ws, message);
+                    return;
+                }
+
+                if (message.type === 'bundle') {
+                    forwardPacket(ws, message, buildOSCBundle(message));
+                    return;
+                }
+
+                forwardPacket(ws, message, buildOSCMessage(message));
+
+            } catch (error) {
+                log.error('❌ Error processing WebSocket message', { error, message: data.toString() });
+            }
+        });
+
+        // Handle client disconnect
+        ws.on('close', () => {
+            log.info(`🔌 Web client disconnected from ${clientIP}`);
+        });
+
+        ws.on('error', (error) => {
+            log.error('❌ WebSocket error', { error });
+        });
+
+        // Versions first, so a panel that can't talk to this bridge can say why
+        ws.send(JSON.stringify(helloMessage()));
+
+        // Send welcome message
+        ws.send(JSON.stringify({
+            type: 'status',
+            message: 'Connected to OSC bridge',
+            touchdesignerHost: bridgeConfig.touchdesigner.host,
+            touchdesignerPort: bridgeConfig.touchdesigner.port,
+            routes: router.describe(),
+            tdStatus: bridgeConfig.touchdesigner.probeInterval > 0 ? tdProbe.status() : null,
+            authRequired: auth.enabled,
+            role: ws.role,
+            recorder: recorder.status(),
+            replay: player.status()
+        }));
+
+        if (ws.role) {
+            sendSnapshot(ws);
+        }
+    });
+
+    // Current parameter values so a new panel starts from what is on screen, not its defaults
+    function sendSnapshot(ws) {
+        ws.send(JSON.stringify({
+            type: 'snapshot',
+            values: Array.from(parameterState, ([address, args]) => ({ address, args }))
+        }));
+    }
+
+    function sendError(ws, code, message, requestId) {
+        log.warn(`⚠️  ${ws.clientIP}: ${message}`);
+        ws.send(JSON.stringify({ type: 'error', code, message, requestId }));
+    }
+
+    // Validate, send and mirror the packet built from a panel's osc or bundle message.
+    // With a requestId the panel gets an ack once every destination took it, or a
+    // nack listing the messages that were rejected or failed to send.
+    function forwardPacket(ws, message, packet) {
+        const { requestId } = message;
+        const addresses = message.type === 'bundle' ? message.packets.map(({ address }) => address) : [message.address];
+
+        if (!packet) {
+            if (requestId !== undefined) {
+                const failures = addresses.map(address => ({ address, code: 'invalid_message', message: `${address} has invalid arguments`, route: null, destination: null }));
+                sendNack(ws, requestId, failures);
+            }
+            return;
+        }
+
+        const result = validatePacket(ws, packet, requestId);
+        if (result.action === 'rejected') {
+            if (requestId !== undefined) {
+                const failures = result.problems.map(problem => ({ address: problem.address, code: 'invalid_message', message: describeProblem(problem), route: null, destination: null }));
+                sendNack(ws, requestId, failures, { action: result.action, problems: result.problems });
+            }
+            return;
+        }
+
+        recorder.record(result.packet);
+        sendOSCPacket(result.packet, requestId === undefined ? undefined : (failures) => {
+            if (failures.length > 0) {
+                sendNack(ws, requestId, failures, { action: result.action, problems: result.problems });
+            } else if (ws.readyState === WebSocket.OPEN) {
+                ws.send(JSON.stringify({ type: 'ack', requestId, action: result.action, problems: result.problems }));
+            }
+        });
+        relayToPeers(ws, result.packet);
+    }
+
+    function sendNack(ws, requestId, failures, validation = {}) {
+        // Sends fail asynchronously, possibly after the panel has gone
+        if (ws.readyState !== WebSocket.OPEN) return;
+        const [first] = failures;
+        const more = failures.length > 1 ? ` (+${failures.length - 1} more)` : '';
+        ws.send(JSON.stringify({ type: 'nack', requestId, code: first.code, message: `${first.message}${more}`, failures, ...validation }));
+    }
+
+    // Check a built message or bundle against the parameter registry. The result's
+    // packet is what to send on - clamped in clamp mode - or null when rejected.
+    // Requests are answered by forwardPacket; everything else gets a throttled notice.
+    function validatePacket(ws, packet, requestId) {
+        if (!validator) return { action: 'ok', packet, problems: [] };
+
+        const result = validator.validate(packet);
+        if (result.action === 'ok') return result;
+
+        const messageCount = packet.packets ? packet.packets.length : 1;
+        if (result.action === 'rejected') {
+            bridgeStats.recordDropped('invalid', messageCount);
+        } else if (result.action === 'clamped') {
+            bridgeStats.recordClamped();
+        }
+
+        const [first] = result.problems;
+        const description = describeProblems(result.problems);
+        log.sampled('warn', `validation:${first.address}`, `⚠️  ${ws.clientIP}: ${description}`, { action: result.action });
+        if (requestId !== undefined) return result;
+
+        // A knob dragged past its range would otherwise produce an error per frame
+        const now = Date.now();
+        const noticeKey = `${first.address} ${first.problem}`;
+        const lastNotice = ws.validationNotices.get(noticeKey);
+        if (lastNotice === undefined || now - lastNotice >= VALIDATION_NOTICE_INTERVAL) {
+            ws.validationNotices.set(noticeKey, now);
+            ws.send(JSON.stringify({
+                type: 'error',
+                code: result.action === 'clamped' ? 'value_clamped' : 'invalid_message',
+                message: description,
+                action: result.action,
+                problems: result.problems
+            }));
+        }
+        return result;
+    }
+
+    // The first problem in words, plus how many more there are
+    function describeProblems(problems) {
+        const more = problems.length > 1 ? ` (+${problems.length - 1} more)` : '';
+        return `${describeProblem(problems[0])}${more}`;
+    }
+
+    // The panel's hello: check that both sides share a protocol version
+    function handleHello(ws, hello) {
+        const version = negotiateVersion(hello);
+        if (version === null) {
+            sendError(ws, 'unsupported_version', describeVersionMismatch(hello, 'panel', 'bridge'));
+            ws.close(1002, 'Unsupported protocol version');
+            return;
+        }
+        ws.protocolVersion = version;
+        log.debug(`🤝 ${ws.clientIP} speaks protocol v${version}`);
+    }
+
+    // Control messages that read or change the bridge itself
+    const ADMIN_MESSAGE_TYPES = ['getConfig', 'setConfig', 'testDestination', 'getStats'];
+
+    function handleAdminMessage(ws, message) {
+        const { requestId } = message;
+
+        if (message.type === 'getConfig') {
+            ws.send(JSON.stringify({ type: 'config', requestId, config: currentConfig() }));
+            return;
+        }
+
+        if (message.type === 'getStats') {
+            ws.send(JSON.stringify({ type: 'stats', requestId, stats: bridgeStatsReport() }));
+            return;
+        }
+
+        if (message.type === 'setConfig') {
+            let next;
+            try {
+                const changed = LOG_FILE_SETTINGS.filter((key) =>
+                    message.config.logging?.[key] !== undefined && message.config.logging[key] !== bridgeConfig.logging[key]);
+                if (changed.length > 0) {
+                    throw new Error(`The log file (${changed.join(', ')}) can only be set in ${CONFIG_FILE} or the environment`);
+                }
+                const logging = { ...message.config.logging };
+                LOG_FILE_SETTINGS.forEach((key) => { logging[key] = bridgeConfig.logging[key]; });
+                next = parseBridgeConfig({ ...message.config, logging }, CONFIG_DEFAULTS);
+            } catch (error) {
+                sendError(ws, 'invalid_config', error.message, requestId);
+                return;
+            }
+
+            applyBridgeConfig(next);
+            log.info(`🛠  Bridge config updated by ${ws.clientIP}`);
+            try {
+                saveBridgeConfig(CONFIG_FILE, currentConfig());
+            } catch (error) {
+                sendError(ws, 'save_failed', `Config applied but not saved to ${CONFIG_FILE}: ${error.message}`, requestId);
+                return;
+            }
+            ws.send(JSON.stringify({ type: 'config', requestId, config: currentConfig() }));
+            return;
+        }
+
+        if (message.type === 'testDestination') {
+            const { host, transport = 'udp' } = message;
+            const port = parseInt(message.port);
+            if (typeof host !== 'string' || !host || !(port > 0 && port < 65536)) {
+                sendError(ws, 'invalid_destination', `Invalid destination ${JSON.stringify({ host: message.host, port: message.port })}`, requestId);
+                return;
+            }
+
+            const reply = (error) => {
+                ws.send(JSON.stringify({
+                    type: 'testResult',
+                    requestId,
+                    host,
+                    port,
+                    transport,
+                    ok: !error,
+                    error: error ? (error.code || error.message) : null
+                }));
+            };
+            if (transport === 'tcp') {
+                testTCPConnectivity(host, port, reply);
+            } else {
+                testUDPConnectivity(host, port, reply);
+            }
+        }
+    }
+
+    // Plain JSON form of the running config, as saved to the config file
+    function currentConfig() {
+        return {
+            touchdesigner: { ...bridgeConfig.touchdesigner },
+            routes: router.toJSON(),
+            logging: { ...bridgeConfig.logging }
+        };
+    }
+
+    // Swap in a validated config without restarting; route statistics start over
+    function applyBridgeConfig(next) {
+        bridgeConfig = next;
+        router = createRouter(next.routes);
+        log.configure(next.logging);
+        syncTCPConnections();
+        tdProbe.configure({
+            host: next.touchdesigner.host,
+            port: next.touchdesigner.port,
+            interval: next.touchdesigner.probeInterval
+        });
+        logRoutes();
+
+        broadcast({
+            type: 'routes',
+            touchdesignerHost: next.touchdesigner.host,
+            touchdesignerPort: next.touchdesigner.port,
+            routes: router.describe(),
+            tdStatus: next.touchdesigner.probeInterval > 0 ? tdProbe.status() : null
+        });
+    }
+
+    // Recording and playback controls (operators and admins)
+    const SESSION_MESSAGE_TYPES = ['listSessions', 'record', 'replay'];
+
+    function handleSessionMessage(ws, message) {
+        const { requestId } = message;
+
+        try {
+            if (message.type === 'listSessions') {
+                ws.send(JSON.stringify({ type: 'sessions', requestId, sessions: listSessions(SESSIONS_DIR) }));
+                return;
+            }
+
+            if (message.type === 'record') {
+                if (message.action === 'start') {
+                    recorder.start(message.name);
+                    log.info(`⏺  Recording session ${recorder.status().name} (started by ${ws.clientIP})`);
+                } else if (message.action === 'stop') {
+                    recorder.stop();
+                    const { name, messages } = recorder.status();
+                    log.info(`⏹  Saved session ${name} (${messages} messages)`);
+                } else {
+                    throw new Error(`Unknown record action ${JSON.stringify(message.action)}`);
+                }
+                const status = recorder.status();
+                broadcast({ type: 'recorderState', ...status }, ws);
+                ws.send(JSON.stringify({ type: 'recorderState', requestId, ...status }));
+                return;
+            }
+
+            switch (message.action) {
+                case 'load':
+                    player.load(loadSession(SESSIONS_DIR, message.session));
+                    log.info(`📼 Loaded session ${message.session}`);
+                    break;
+                case 'play': player.play(); break;
+                case 'pause': player.pause(); break;
+                case 'stop': player.stop(); break;
+                case 'seek': player.seek(message.position); break;
+                case 'loop': player.setLoop(message.loop); break;
+                case 'speed': player.setSpeed(message.speed); break;
+                default:
+                    throw new Error(`Unknown replay action ${JSON.stringify(message.action)}`);
+            }
+            ws.send(JSON.stringify({ type: 'replayState', requestId, ...player.status() }));
+        } catch (error) {
+            sendError(ws, 'session_error', error.code === 'ENOENT' ? `Session ${message.session} not found` : error.message, requestId);
+        }
+    }
+
+    // PIN handshake - a matching PIN upgrades the client to that role
+    function handleLogin(ws, pin) {
+        const lockedFor = loginLimiter.lockedFor(ws.clientIP);
+        if (lockedFor > 0) {
+            const message = `Too many wrong PINs, try again in ${Math.ceil(lockedFor / 1000)}s`;
+            ws.send(JSON.stringify({ type: 'auth', ok: false, role: ws.role, message }));
+            ws.close(1008, 'Too many failed login attempts');
+            return;
+        }
+
+        const role = auth.authenticate(pin);
+        if (!role) {
+            const attempts = loginLimiter.attempts(ws.clientIP) + 1;
+            const lockout = loginLimiter.fail(ws.clientIP);
+            if (lockout > 0) {
+                log.warn(`🔒 Failed login from ${ws.clientIP}, locked out for ${Math.ceil(lockout / 1000)}s`);
+                ws.send(JSON.stringify({ type: 'auth', ok: false, role: ws.role, message: `Too many wrong PINs, try again in ${Math.ceil(lockout / 1000)}s` }));
+                ws.close(1008, 'Too many failed login attempts');
+            } else {
+                log.warn(`🔒 Failed login from ${ws.clientIP} (${attempts}/${MAX_LOGIN_ATTEMPTS})`);
+                ws.send(JSON.stringify({ type: 'auth', ok: false, role: ws.role, message: 'Invalid PIN' }));
+            }
+            return;
+        }
+
+        const wasLoggedIn = Boolean(ws.role);
+        ws.role = role;
+        loginLimiter.succeed(ws.clientIP);
+        log.info(`🔓 ${ws.clientIP} logged in as ${role}`);
+        ws.send(JSON.stringify({ type: 'auth', ok: true, role }));
+        if (!wasLoggedIn) {
+            sendSnapshot(ws);
+        }
+    }
+
+    // Drop half-open sockets: a client that started heartbeating and then went quiet is gone
+    const heartbeatSweep = HEARTBEAT_TIMEOUT > 0 && setInterval(() => {
+        const now = Date.now();
+        wss.clients.forEach((client) => {
+            if (client.lastHeartbeat && now - client.lastHeartbeat > HEARTBEAT_TIMEOUT) {
+                log.warn(`💔 No heartbeat from ${client.clientIP} for ${now - client.lastHeartbeat}ms, dropping client`);
+                client.terminate();
+            }
+        });
+    }, Math.max(1000, HEARTBEAT_TIMEOUT / 3));
+
+    // The HTTP server is up, whether the bridge's own or the embedding one
+    function announce() {
+        log.info(`🚀 WebSocket server listening on ${secure ? 'wss' : 'ws'}://0.0.0.0:${port}${basePath}`);
+        if (MDNS_ENABLED) {
+            discovery.start();
+            log.info(`📡 Advertising "${BRIDGE_NAME}" on the LAN (${localAddresses().join(', ') || 'no network'})`);
+        }
+        log.info(`🎯 Ready to bridge messages to TouchDesigner!`);
+        log.info(`\n📋 Next steps:`);
+        log.info(`   1. Open TouchDesigner`);
+        log.info(`   2. Add OSC In CHOP, set port to ${bridgeConfig.touchdesigner.port}`);
+        if (!embedded) {
+            log.info(`   3. Start your Next.js app: npm run dev`);
+        }
+    }
+
+    wss.on('error', (error) => {
+        log.error('❌ WebSocket server error', { error });
+    });
+
+    // Standalone the bridge listens itself; embedded it goes live with the host server
+    function start() {
+        if (!embedded) {
+            server.listen(port);
+        }
+        if (server.listening) {
+            announce();
+        } else {
+            server.once('listening', announce);
+        }
+    }
+
+    // Graceful shutdown; an embedding server is left for its owner to close
+    function close() {
+        log.info('\n🛑 Shutting down bridge...');
+        if (heartbeatSweep) {
+            clearInterval(heartbeatSweep);
+        }
+        tdProbe.stop();
+        player.stop();
+        if (recorder.isRecording()) {
+            recorder.stop();
+        }
+        discovery.stop();
+        tcpConnections.forEach(connection => connection.close());
+        wss.clients.forEach(client => client.terminate());
+        wss.close();
+        if (!embedded) {
+            server.close();
+        }
+        if (udpSocketReady) {
+            udpSocket.close();
+        }
+        log.close();
+    }
+
+    // Network connectivity test function
+    function testNetworkConnectivity() {
+        const net = require('net');
+        const { host, port } = bridgeConfig.touchdesigner;
+        log.info(`🔍 Testing network connectivity to ${host}...`);
+
+        // Test if we can reach the host (try a TCP connection first)
+        const socket = new net.Socket();
+        socket.setTimeout(3000);
+
+        socket.on('connect', () => {
+            log.info(`✅ TCP connectivity to ${host} confirmed`);
+            socket.destroy();
+
+            // If TCP works, test UDP specifically
+            setTimeout(() => {
+                testUDPConnectivity(host, port);
+            }, 500);
+        });
+
+        socket.on('timeout', () => {
+            log.info(`⚠️  TCP connection to ${host} timed out`);
+            log.info(`⚠️  Host may be reachable but not accepting TCP connections`);
+            socket.destroy();
+        });
+
+        socket.on('error', (error) => {
+            if (error.code === 'ENETUNREACH') {
+                log.info(`❌ Network unreachable: Cannot reach ${host}`);
+                log.info(`❌ Check if ${host} is on the same network`);
+            } else if (error.code === 'EHOSTUNREACH') {
+                log.info(`❌ Host unreachable: ${host} is not responding`);
+            } else if (error.code === 'ECONNREFUSED') {
+                log.info(`✅ Host ${host} is reachable (connection refused is normal for UDP-only services)`);
+
+                // If TCP works, test UDP specifically
+                setTimeout(() => {
+                    testUDPConnectivity(host, port);
+                }, 500);
+            } else {
+                log.warn(`⚠️  Network test error: ${error.code}`);
+            }
+            socket.destroy();
+        });
+
+        // Try to connect to a common port (we expect this to fail, but it tests reachability)
+        socket.connect(80, host);
+    }
+
+    // UDP-specific connectivity test; callback(error) reports the result to the settings page
+    function testUDPConnectivity(host, port, callback = () => {}) {
+        log.info(`🔍 Testing UDP connectivity to ${host}:${port}...`);
+
+        // Create a simple test UDP socket
+        const testSocket = dgram.createSocket('udp4');
+        const testMessage = Buffer.from('UDP_TEST');
+
+        testSocket.send(testMessage, port, host, (error) => {
+            if (error) {
+                log.warn(`❌ UDP test failed: ${error.code}`);
+                if (error.code === 'ENETUNREACH') {
+                    log.info(`❌ UDP traffic to ${host}:${port} is blocked`);
+                    log.info(`🔧 Possible solutions:`);
+                    log.info(`   • Check Windows Firewall settings on both machines`);
+                    log.info(`   • Check router/network firewall settings`);
+                    log.info(`   • Try temporarily disabling firewalls for testing`);
+                    log.info(`   • Verify TouchDesigner OSC In CHOP is configured and active`);
+                    log.info(`   • Try a different port (e.g., 7001, 8000)`);
+                }
+            } else {
+                log.info(`✅ UDP connectivity to ${host}:${port} appears to work`);
+                log.info(`✅ The issue might be with TouchDesigner OSC configuration`);
+            }
+            testSocket.close();
+            callback(error);
+        });
+    }
+
+    // TCP destinations: a completed handshake means something is listening on the port
+    function testTCPConnectivity(host, port, callback) {
+        const net = require('net');
+        log.info(`🔍 Testing TCP connectivity to ${host}:${port}...`);
+
+        const socket = net.createConnection({ host, port });
+        socket.setTimeout(3000);
+        socket.on('connect', () => {
+            log.info(`✅ TCP connectivity to ${host}:${port} confirmed`);
+            socket.destroy();
+            callback(null);
+        });
+        socket.on('timeout', () => {
+            log.warn(`⚠️  TCP connection to ${host}:${port} timed out`);
+            socket.destroy();
+            const error = new Error('Connection timed out');
+            error.code = 'ETIMEDOUT';
+            callback(error);
+        });
+        socket.on('error', (error) => {
+            log.warn(`❌ TCP test to ${host}:${port} failed: ${error.code}`);
+            socket.destroy();
+            callback(error);
+        });
+    }
+
+    return { start, close, handleRequest };
+}
+
+// OSC type tags a client may request explicitly with { type, value }
+const OSC_TYPE_TAGS = ['i', 'h', 'f', 'd', 's', 'S', 'c', 'T', 'F', 'N', 'I', 'r', 'm', 'b', 't'];
+
+function assertNumber(value, type) {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(`'${type}' argument needs a finite number, got ${JSON.stringify(value)}`);
+    }
+}
+
+function assertByte(value, type) {
+    if (!Number.isInteger(value) || value < 0 || value > 255) {
+        throw new Error(`'${type}' argument bytes must be integers 0-255, got ${JSON.stringify(value)}`);
+    }
+}
+
+// Convert an explicitly typed { type, value } argument into the form osc.writePacket expects
+function toTypedOSCArg(arg) {
+    const { type, value } = arg;
+    if (!OSC_TYPE_TAGS.includes(type)) {
+        throw new Error(`Unsupported OSC type tag '${type}'`);
+    }
+
+    switch (type) {
+        case 'i':
+            assertNumber(value, type);
+            return { type, value: Math.trunc(value) };
+        case 'h': {
+            // 64-bit int: osc.js expects { high, low } 32-bit halves
+            if (!Number.isSafeInteger(value)) {
+                throw new Error(`'h' argument needs a safe integer, got ${JSON.stringify(value)}`);
+            }
+            const high = Math.floor(value / 0x100000000);
+            return { type, value: { high, low: value - high * 0x100000000 } };
+        }
+        case 'f':
+        case 'd':
+            assertNumber(value, type);
+            return { type, value };
+        case 's':
+        case 'S':
+            return { type, value: String(value) };
+        case 'c':
+            if (typeof value !== 'string' || value.length !== 1) {
+                throw new Error(`'c' argument needs a single character, got ${JSON.stringify(value)}`);
+            }
+            return { type, value };
+        case 'T':
+        case 'F':
+        case 'N':
+        case 'I':
+            // No payload - the type tag is the value
+            return { type };
+        case 'r': {
+            // RGB as bytes 0-255, alpha as 0-1 (osc.js scales it to a byte)
+            if (!value || typeof value !== 'object') {
+                throw new Error(`'r' argument needs { r, g, b, a }, got ${JSON.stringify(value)}`);
+            }
+            [value.r, value.g, value.b].forEach(byte => assertByte(byte, type));
+            const a = value.a === undefined ? 1 : value.a;
+            if (typeof a !== 'number' || a < 0 || a > 1) {
+                throw new Error(`'r' argument alpha must be 0-1, got ${JSON.stringify(value.a)}`);
+            }
+            return { type, value: { r: value.r, g: value.g, b: value.b, a } };
+        }
+        case 'm': {
+            if (!Array.isArray(value) || value.length !== 4) {
+                throw new Error(`'m' argument needs [port, status, data1, data2], got ${JSON.stringify(value)}`);
+            }
+            value.forEach(byte => assertByte(byte, type));
+            return { type, value: Uint8Array.from(value) };
+        }
+        case 'b': {
+            // Blobs travel over JSON as base64 strings or plain byte arrays
+            if (typeof value === 'string') {
+                return { type, value: Uint8Array.from(Buffer.from(value, 'base64')) };
+            }
+            if (Array.isArray(value)) {
+                value.forEach(byte => assertByte(byte, type));
+                return { type, value: Uint8Array.from(value) };
+            }
+            throw new Error(`'b' argument needs a base64 string or byte array, got ${JSON.stringify(value)}`);
+        }
+        case 't':
+            // Time tag as a JS timestamp in milliseconds
+            assertNumber(value, type);
+            return { type, value: { native: value } };
+    }
+}
+
+// Infer the OSC type of a bare JSON value
+function inferOSCArg(arg) {
+    if (typeof arg === 'number') {
+        return { type: 'f', value: arg }; // Float
+    } else if (typeof arg === 'string') {
+        return { type: 's', value: arg }; // String
+    } else if (typeof arg === 'boolean') {
+        return { type: 'i', value: arg ? 1 : 0 }; // Boolean as integer
+    } else {
+        // Try to convert to string as fallback
+        return { type: 's', value: String(arg) };
+    }
+}
+
+function isTypedArg(arg) {
+    return arg !== null && typeof arg === 'object' && !Array.isArray(arg) && typeof arg.type === 'string';
+}
+
+// Short human readable form of a typed argument for the console
+function describeOSCArg(arg) {
+    if (arg.value === undefined) {
+        return arg.type;
+    }
+    if (arg.value instanceof Uint8Array) {
+        return `${arg.type}:<${arg.value.length} bytes>`;
+    }
+    if (typeof arg.value === 'object') {
+        return `${arg.type}:${JSON.stringify(arg.value)}`;
+    }
+    return `${arg.type}:${arg.value}`;
+}
+
+module.exports = { createBridge };
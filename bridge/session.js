@@ -0,0 +1,346 @@
+// bridge/session.js - Record outgoing OSC to session files and play them back
+//
+// A session file is JSON lines: a header, one line per packet with its offset
+// from the start of the recording in ms (microsecond resolution), and a footer
+// with the total length:
+//   { "type": "session", "version": 1, "name": "...", "startedAt": 1700000000000 }
+//   { "t": 12.345, "packet": { "address": "/pre/zoom", "args": [{ "type": "f", "value": 1 }] } }
+//   { "type": "end", "t": 60000.5 }
+// Blob ('b') args are stored as base64 strings and MIDI ('m') args as byte arrays.
+const fs = require('fs');
+const path = require('path');
+
+const SESSION_VERSION = 1;
+const SESSION_EXTENSION = '.jsonl';
+const SESSION_NAME_PATTERN = /^[\w.-]{1,64}$/;
+const MIN_SPEED = 0.1;
+const MAX_SPEED = 10;
+
+function sessionPath(directory, name) {
+    if (typeof name !== 'string' || !SESSION_NAME_PATTERN.test(name)) {
+        throw new Error('Session names may only use letters, digits, ".", "-" and "_"');
+    }
+    return path.join(path.resolve(directory), `${name}${SESSION_EXTENSION}`);
+}
+
+// session-20250101-203000
+function defaultSessionName(date = new Date()) {
+    const pad = (n) => String(n).padStart(2, '0');
+    return `session-${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// Milliseconds since `start`, a process.hrtime.bigint() value
+function elapsedMs(start) {
+    return Number(process.hrtime.bigint() - start) / 1e6;
+}
+
+// Byte values of a recorded arg: a Uint8Array while recording; in a file a base64
+// string, a byte array, { type: 'Buffer', data } or the { "0": .. } that JSON
+// makes of a Uint8Array in files written before blobs were encoded
+function toBytes(value) {
+    if (typeof value === 'string') return Uint8Array.from(Buffer.from(value, 'base64'));
+    if (value instanceof Uint8Array || Array.isArray(value)) return Uint8Array.from(value);
+    if (value && Array.isArray(value.data)) return Uint8Array.from(value.data);
+    if (value && typeof value === 'object') return Uint8Array.from(Object.values(value));
+    throw new Error(`Expected bytes, got ${JSON.stringify(value)}`);
+}
+
+// Uint8Arrays don't survive JSON.stringify
+function serializePacket(packet) {
+    if (packet.packets) {
+        return { ...packet, packets: packet.packets.map(serializePacket) };
+    }
+    return {
+        address: packet.address,
+        args: (packet.args || []).map((arg) => {
+            if (arg.type === 'b') return { type: 'b', value: Buffer.from(toBytes(arg.value)).toString('base64') };
+            if (arg.type === 'm') return { type: 'm', value: Array.from(toBytes(arg.value)) };
+            return arg;
+        })
+    };
+}
+
+// onError(error) when writing fails (disk full, permissions); the recording is stopped
+function createRecorder({ directory, onError = () => {} }) {
+    let stream = null;
+    let name = null;
+    let startedAt = null;
+    let start = 0n;
+    let messages = 0;
+    let error = null;
+
+    return {
+        start(requestedName) {
+            if (stream) {
+                throw new Error(`Already recording ${name}`);
+            }
+            const nextName = requestedName || defaultSessionName();
+            const file = sessionPath(directory, nextName);
+            if (fs.existsSync(file)) {
+                throw new Error(`Session ${nextName} already exists`);
+            }
+            fs.mkdirSync(path.dirname(file), { recursive: true });
+
+            name = nextName;
+            startedAt = Date.now();
+            start = process.hrtime.bigint();
+            messages = 0;
+            error = null;
+            const current = fs.createWriteStream(file, { flags: 'wx' });
+            current.on('error', (streamError) => {
+                error = streamError.code || streamError.message;
+                if (stream === current) stream = null;
+                current.destroy();
+                onError(streamError);
+            });
+            stream = current;
+            stream.write(`${JSON.stringify({ type: 'session', version: SESSION_VERSION, name, startedAt })}\n`);
+        },
+
+        // Every packet the panels send, as built for osc.writePacket
+        record(packet) {
+            if (!stream) return;
+            messages += packet.packets ? packet.packets.length : 1;
+            stream.write(`${JSON.stringify({ t: elapsedMs(start), packet: serializePacket(packet) })}\n`);
+        },
+
+        stop() {
+            if (!stream) {
+                throw new Error('Not recording');
+            }
+            stream.end(`${JSON.stringify({ type: 'end', t: elapsedMs(start) })}\n`);
+            stream = null;
+        },
+
+        isRecording() {
+            return stream !== null;
+        },
+
+        status() {
+            return {
+                recording: stream !== null,
+                name,
+                startedAt,
+                messages,
+                duration: stream ? elapsedMs(start) : null,
+                error
+            };
+        }
+    };
+}
+
+function listSessions(directory) {
+    const sessionsPath = path.resolve(directory);
+    if (!fs.existsSync(sessionsPath)) return [];
+    return fs.readdirSync(sessionsPath)
+        .filter((file) => file.endsWith(SESSION_EXTENSION))
+        .map((file) => {
+            const stats = fs.statSync(path.join(sessionsPath, file));
+            return { name: path.basename(file, SESSION_EXTENSION), size: stats.size, modifiedAt: stats.mtimeMs };
+        })
+        .sort((a, b) => b.modifiedAt - a.modifiedAt);
+}
+
+// Blob and MIDI args go back to bytes, and recorded time tags are long past
+function revivePacket(packet) {
+    if (packet.packets) {
+        return { timeTag: { raw: [0, 1] }, packets: packet.packets.map(revivePacket) };
+    }
+    return {
+        address: packet.address,
+        args: (packet.args || []).map((arg) => (arg.type === 'b' || arg.type === 'm' ? { type: arg.type, value: toBytes(arg.value) } : arg))
+    };
+}
+
+function loadSession(directory, name) {
+    const lines = fs.readFileSync(sessionPath(directory, name), 'utf8').split('\n').filter(Boolean);
+    const header = JSON.parse(lines[0] || '{}');
+    if (header.type !== 'session' || header.version !== SESSION_VERSION) {
+        throw new Error(`${name} is not a version ${SESSION_VERSION} session file`);
+    }
+
+    const events = [];
+    let duration = 0;
+    lines.slice(1).forEach((line) => {
+        const entry = JSON.parse(line);
+        if (entry.type === 'end') {
+            duration = entry.t;
+        } else {
+            events.push({ t: entry.t, packet: revivePacket(entry.packet) });
+        }
+    });
+    // A recording cut short by a crash has no footer
+    duration = Math.max(duration, events.length ? events[events.length - 1].t : 0);
+
+    return { name, startedAt: header.startedAt, events, duration };
+}
+
+function flattenMessages(packet) {
+    return packet.packets ? packet.packets.flatMap(flattenMessages) : [packet];
+}
+
+// Plays a loaded session through `send`, timed against the recorded offsets
+function createPlayer({ send, onChange }) {
+    let session = null;
+    let state = 'stopped';
+    let position = 0;
+    let loop = false;
+    let speed = 1;
+    let index = 0;
+    let timer = null;
+    // While playing: position = basePosition + (now - baseTime) * speed
+    let baseTime = 0;
+    let basePosition = 0;
+
+    const now = () => Number(process.hrtime.bigint()) / 1e6;
+
+    const currentPosition = () => (state === 'playing'
+        ? Math.min(basePosition + (now() - baseTime) * speed, session.duration)
+        : position);
+
+    const rebase = (at) => {
+        position = at;
+        basePosition = at;
+        baseTime = now();
+    };
+
+    const firstEventFrom = (at) => {
+        const next = session.events.findIndex((event) => event.t >= at);
+        return next === -1 ? session.events.length : next;
+    };
+
+    const notify = () => onChange(player.status());
+
+    const tick = () => {
+        clearTimeout(timer);
+        timer = null;
+        if (state !== 'playing') return;
+
+        const at = currentPosition();
+        while (index < session.events.length && session.events[index].t <= at) {
+            send(session.events[index].packet);
+            index++;
+        }
+
+        if (index < session.events.length) {
+            timer = setTimeout(tick, (session.events[index].t - at) / speed);
+            return;
+        }
+        if (at < session.duration) {
+            timer = setTimeout(tick, (session.duration - at) / speed);
+            return;
+        }
+
+        // End of the session
+        if (loop && session.duration > 0) {
+            rebase(0);
+            index = 0;
+            notify();
+            timer = setTimeout(tick, 0);
+        } else {
+            position = session.duration;
+            state = 'paused';
+            notify();
+        }
+    };
+
+    const player = {
+        load(loaded) {
+            player.stop();
+            session = loaded;
+            notify();
+        },
+
+        play() {
+            if (!session) throw new Error('No session loaded');
+            if (state === 'playing') return;
+            if (position >= session.duration) {
+                position = 0;
+            }
+            index = firstEventFrom(position);
+            state = 'playing';
+            rebase(position);
+            notify();
+            tick();
+        },
+
+        pause() {
+            if (state !== 'playing') return;
+            position = currentPosition();
+            state = 'paused';
+            clearTimeout(timer);
+            timer = null;
+            notify();
+        },
+
+        stop() {
+            clearTimeout(timer);
+            timer = null;
+            state = 'stopped';
+            position = 0;
+            index = 0;
+            if (session) notify();
+        },
+
+        // Jump to a position and send the latest value of every address up to
+        // there, so TouchDesigner shows what it showed at that moment
+        seek(to) {
+            if (!session) throw new Error('No session loaded');
+            const target = Math.max(0, Math.min(Number(to) || 0, session.duration));
+            index = firstEventFrom(target);
+
+            const latest = new Map();
+            session.events.slice(0, index).forEach((event) => {
+                flattenMessages(event.packet).forEach((message) => latest.set(message.address, message));
+            });
+            latest.forEach((message) => send(message));
+
+            if (state === 'playing') {
+                rebase(target);
+                tick();
+            } else {
+                position = target;
+                if (state === 'stopped' && target > 0) state = 'paused';
+            }
+            notify();
+        },
+
+        setLoop(enabled) {
+            loop = Boolean(enabled);
+            notify();
+        },
+
+        setSpeed(next) {
+            const value = Number(next);
+            if (!(value >= MIN_SPEED && value <= MAX_SPEED)) {
+                throw new Error(`Speed must be between ${MIN_SPEED} and ${MAX_SPEED}`);
+            }
+            if (state === 'playing') rebase(currentPosition());
+            speed = value;
+            if (state === 'playing') tick();
+            notify();
+        },
+
+        status() {
+            return {
+                session: session ? session.name : null,
+                state,
+                position: session ? currentPosition() : 0,
+                duration: session ? session.duration : 0,
+                messages: session ? session.events.length : 0,
+                loop,
+                speed,
+                updatedAt: Date.now()
+            };
+        }
+    };
+
+    return player;
+}
+
+module.exports = {
+    createRecorder,
+    createPlayer,
+    listSessions,
+    loadSession
+};
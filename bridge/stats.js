@@ -0,0 +1,110 @@
+// bridge/stats.js - Counters behind the /health and /stats endpoints
+
+// Message rates are averaged over this many completed seconds
+const RATE_WINDOW_SECONDS = 10;
+
+// Per-second buckets in a ring, so rates cost nothing to keep up to date
+function createRateCounter() {
+    const counts = new Array(RATE_WINDOW_SECONDS).fill(0);
+    const seconds = new Array(RATE_WINDOW_SECONDS).fill(-1);
+
+    return {
+        total: 0,
+        lastAt: null,
+
+        record(now) {
+            const second = Math.floor(now / 1000);
+            const slot = second % RATE_WINDOW_SECONDS;
+            if (seconds[slot] !== second) {
+                seconds[slot] = second;
+                counts[slot] = 0;
+            }
+            counts[slot]++;
+            this.total++;
+            this.lastAt = now;
+        },
+
+        perSecond(now) {
+            const current = Math.floor(now / 1000);
+            let sum = 0;
+            seconds.forEach((second, slot) => {
+                if (second < current && second >= current - RATE_WINDOW_SECONDS) {
+                    sum += counts[slot];
+                }
+            });
+            return Math.round((sum / RATE_WINDOW_SECONDS) * 10) / 10;
+        }
+    };
+}
+
+function createBridgeStats() {
+    const startedAt = Date.now();
+    const messages = createRateCounter();
+    const addresses = new Map();
+    // Why messages from the panels never left the bridge
+    const dropped = { notReady: 0, noRoute: 0, disabled: 0, invalid: 0 };
+    // Out-of-range values the bridge pulled into range before sending
+    let clamped = 0;
+    let encodeFailures = 0;
+    // transport → error code → count
+    const sendErrors = { udp: {}, tcp: {} };
+
+    return {
+        startedAt,
+
+        uptime() {
+            return Date.now() - startedAt;
+        },
+
+        // One OSC message received from a panel
+        recordMessage(address) {
+            const now = Date.now();
+            messages.record(now);
+            if (!addresses.has(address)) {
+                addresses.set(address, createRateCounter());
+            }
+            addresses.get(address).record(now);
+        },
+
+        recordDropped(reason, count = 1) {
+            dropped[reason] += count;
+        },
+
+        recordClamped() {
+            clamped++;
+        },
+
+        recordEncodeFailure() {
+            encodeFailures++;
+        },
+
+        recordSendError(transport, code) {
+            const errors = sendErrors[transport];
+            errors[code] = (errors[code] || 0) + 1;
+        },
+
+        toJSON() {
+            const now = Date.now();
+            return {
+                startedAt,
+                uptime: now - startedAt,
+                messages: { total: messages.total, perSecond: messages.perSecond(now) },
+                // Busiest first
+                addresses: [...addresses.entries()]
+                    .map(([address, counter]) => ({
+                        address,
+                        total: counter.total,
+                        perSecond: counter.perSecond(now),
+                        lastAt: counter.lastAt
+                    }))
+                    .sort((a, b) => b.perSecond - a.perSecond || b.total - a.total),
+                dropped: { ...dropped, total: dropped.notReady + dropped.noRoute + dropped.disabled + dropped.invalid },
+                clamped,
+                encodeFailures,
+                sendErrors: { udp: { ...sendErrors.udp }, tcp: { ...sendErrors.tcp } }
+            };
+        }
+    };
+}
+
+module.exports = { createBridgeStats };
@@ -0,0 +1,209 @@
+// bridge/tcpTransport.js - OSC over TCP with OSC 1.1 SLIP or OSC 1.0 length-prefix framing
+const net = require('net');
+
+// SLIP special bytes (RFC 1055)
+const SLIP_END = 0xc0;
+const SLIP_ESC = 0xdb;
+const SLIP_ESC_END = 0xdc;
+const SLIP_ESC_ESC = 0xdd;
+
+// Frames held while the connection is down; the oldest are dropped beyond this
+const MAX_QUEUED_FRAMES = 256;
+// Largest packet accepted from a destination; a bigger or negative size means a broken stream
+const MAX_FRAME_SIZE = 1024 * 1024;
+const MIN_RECONNECT_DELAY = 500;
+const MAX_RECONNECT_DELAY = 10000;
+
+// OSC 1.1 uses double-ended SLIP: END before and after every packet
+function encodeSLIP(buffer) {
+    const bytes = [SLIP_END];
+    for (const byte of buffer) {
+        if (byte === SLIP_END) {
+            bytes.push(SLIP_ESC, SLIP_ESC_END);
+        } else if (byte === SLIP_ESC) {
+            bytes.push(SLIP_ESC, SLIP_ESC_ESC);
+        } else {
+            bytes.push(byte);
+        }
+    }
+    bytes.push(SLIP_END);
+    return Buffer.from(bytes);
+}
+
+// OSC 1.0 stream framing: big-endian int32 size, then the packet
+function encodeLengthPrefix(buffer) {
+    const header = Buffer.alloc(4);
+    header.writeInt32BE(buffer.length, 0);
+    return Buffer.concat([header, buffer]);
+}
+
+function frameError(message) {
+    const error = new Error(message);
+    error.code = 'EFRAME';
+    return error;
+}
+
+// Decoders call onError once and ignore the rest of the stream when a frame breaks the limits
+function createSLIPDecoder(onPacket, onError) {
+    let bytes = [];
+    let escaping = false;
+    let failed = false;
+    return (chunk) => {
+        for (const byte of chunk) {
+            if (failed) return;
+            if (escaping) {
+                bytes.push(byte === SLIP_ESC_END ? SLIP_END : byte === SLIP_ESC_ESC ? SLIP_ESC : byte);
+                escaping = false;
+            } else if (byte === SLIP_ESC) {
+                escaping = true;
+            } else if (byte === SLIP_END) {
+                if (bytes.length > 0) onPacket(Buffer.from(bytes));
+                bytes = [];
+            } else {
+                bytes.push(byte);
+            }
+            if (bytes.length > MAX_FRAME_SIZE) {
+                failed = true;
+                bytes = [];
+                onError(frameError(`SLIP frame exceeds ${MAX_FRAME_SIZE} bytes`));
+            }
+        }
+    };
+}
+
+function createLengthPrefixDecoder(onPacket, onError) {
+    let pending = Buffer.alloc(0);
+    let failed = false;
+    return (chunk) => {
+        if (failed) return;
+        pending = Buffer.concat([pending, chunk]);
+        while (pending.length >= 4) {
+            const size = pending.readInt32BE(0);
+            if (size < 0 || size > MAX_FRAME_SIZE) {
+                failed = true;
+                pending = Buffer.alloc(0);
+                onError(frameError(`Invalid OSC frame size ${size}`));
+                return;
+            }
+            if (pending.length < 4 + size) break;
+            onPacket(pending.subarray(4, 4 + size));
+            pending = pending.subarray(4 + size);
+        }
+    };
+}
+
+// Persistent TCP connection to one destination. Sends made while it is down are
+// queued and flushed on reconnect, so final values survive a short outage.
+function createTCPConnection({ host, port, framing = 'slip', onPacket, onStateChange }) {
+    const encode = framing === 'length' ? encodeLengthPrefix : encodeSLIP;
+    const createDecoder = framing === 'length' ? createLengthPrefixDecoder : createSLIPDecoder;
+    const queue = [];
+    let socket = null;
+    let connected = false;
+    let closed = false;
+    let reconnectDelay = MIN_RECONNECT_DELAY;
+    let reconnectTimer = null;
+
+    function closedError() {
+        const error = new Error(`TCP connection to ${host}:${port} was closed`);
+        error.code = 'ECLOSED';
+        return error;
+    }
+
+    function setConnected(value, error) {
+        if (connected === value) return;
+        connected = value;
+        onStateChange(value, error);
+    }
+
+    function flush() {
+        while (connected && queue.length > 0) {
+            const { frame, callback } = queue.shift();
+            socket.write(frame, callback);
+        }
+    }
+
+    function scheduleReconnect() {
+        if (closed || reconnectTimer) return;
+        reconnectTimer = setTimeout(() => {
+            reconnectTimer = null;
+            connect();
+        }, reconnectDelay);
+        reconnectDelay = Math.min(MAX_RECONNECT_DELAY, reconnectDelay * 2);
+    }
+
+    function connect() {
+        const current = net.createConnection({ host, port });
+        // A destination sending garbage gets disconnected and reconnected with a fresh decoder
+        const decode = createDecoder((packet) => onPacket(packet, { address: host, port }), (error) => {
+            current.lastError = error;
+            current.destroy();
+        });
+        socket = current;
+        socket.setNoDelay(true);
+        socket.setKeepAlive(true, 5000);
+
+        socket.on('connect', () => {
+            reconnectDelay = MIN_RECONNECT_DELAY;
+            setConnected(true);
+            flush();
+        });
+        socket.on('data', decode);
+        socket.on('error', (error) => {
+            // 'close' follows and handles the reconnect
+            socket.lastError = error;
+        });
+        socket.on('close', () => {
+            const error = socket.lastError;
+            socket = null;
+            // Closed on purpose (routes changed, bridge shutting down): not a lost connection
+            if (closed) return;
+            setConnected(false, error);
+            scheduleReconnect();
+        });
+    }
+
+    connect();
+
+    return {
+        host,
+        port,
+        framing,
+
+        isConnected() {
+            return connected;
+        },
+
+        // callback(error) once the frame is handed to the kernel or dropped
+        send(buffer, callback) {
+            if (closed) {
+                callback(closedError());
+                return;
+            }
+            const frame = encode(buffer);
+            if (connected) {
+                socket.write(frame, callback);
+                return;
+            }
+            queue.push({ frame, callback });
+            if (queue.length > MAX_QUEUED_FRAMES) {
+                const dropped = queue.shift();
+                const error = new Error(`TCP queue to ${host}:${port} is full`);
+                error.code = 'EQUEUEFULL';
+                dropped.callback(error);
+            }
+        },
+
+        close() {
+            closed = true;
+            if (reconnectTimer) clearTimeout(reconnectTimer);
+            if (socket) socket.destroy();
+            // Queued sends still expect an answer
+            queue.splice(0).forEach(({ callback }) => callback(closedError()));
+        }
+    };
+}
+
+module.exports = {
+    createTCPConnection
+};
@@ -0,0 +1,105 @@
+// bridge/tdProbe.js - Periodic TouchDesigner health probe
+//
+// The bridge sends `<address> <id>` to TouchDesigner every interval and TD echoes
+// the same message back to the bridge's UDP listen port. A reply marks TD online;
+// maxMissed probes in a row without one mark it offline.
+const osc = require('osc');
+
+// Ids older than this many probes can no longer produce a meaningful RTT
+const MAX_PENDING = 16;
+
+function createTDProbe({ host, port, address, interval, maxMissed, send, onChange }) {
+    const status = {
+        state: 'unknown', // unknown | online | offline | unreachable
+        host,
+        port,
+        rtt: null,
+        lastSeen: null,
+        error: null
+    };
+    const pending = new Map();
+    let nextId = 1;
+    let awaitingReply = false;
+    let missed = 0;
+    let timer = null;
+
+    function update(changes) {
+        const previousState = status.state;
+        Object.assign(status, changes);
+        onChange({ ...status }, previousState);
+    }
+
+    function probe() {
+        if (awaitingReply) {
+            missed++;
+            if (missed >= maxMissed && status.state !== 'offline' && status.state !== 'unreachable') {
+                update({ state: 'offline', rtt: null });
+            }
+        }
+
+        const id = nextId++;
+        pending.set(id, Date.now());
+        if (pending.size > MAX_PENDING) {
+            pending.delete(pending.keys().next().value);
+        }
+        awaitingReply = true;
+
+        const buffer = osc.writePacket({ address, args: [{ type: 'i', value: id }] }, { metadata: true });
+        send(buffer, host, port, (error) => {
+            if (error && (status.state !== 'unreachable' || status.error !== error.code)) {
+                update({ state: 'unreachable', rtt: null, error: error.code || error.message });
+            }
+        });
+    }
+
+    return {
+        start() {
+            if (timer || interval <= 0) return;
+            probe();
+            timer = setInterval(probe, interval);
+        },
+
+        stop() {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+
+        // Point the probe somewhere else; the state starts over as unknown.
+        // The same target and interval again changes nothing.
+        configure(settings) {
+            if (settings.host === host && settings.port === port && settings.interval === interval) return;
+            this.stop();
+            host = settings.host;
+            port = settings.port;
+            interval = settings.interval;
+            pending.clear();
+            awaitingReply = false;
+            missed = 0;
+            update({ state: 'unknown', host, port, rtt: null, lastSeen: null, error: null });
+            this.start();
+        },
+
+        // Feed an echoed probe back in; args are the plain values from osc.readPacket
+        handleReply(args) {
+            const id = Array.isArray(args) ? args[0] : args;
+            const sentAt = pending.get(id);
+            pending.delete(id);
+            awaitingReply = false;
+            missed = 0;
+            update({
+                state: 'online',
+                rtt: sentAt === undefined ? status.rtt : Date.now() - sentAt,
+                lastSeen: Date.now(),
+                error: null
+            });
+        },
+
+        status() {
+            return { ...status };
+        }
+    };
+}
+
+module.exports = {
+    createTDProbe
+};
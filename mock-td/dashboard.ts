@@ -0,0 +1,115 @@
+// Terminal view of the mock's parameter table, redrawn in place
+import type { OSCArg } from 'osc';
+import type { LinkOptions, LinkStats } from './link';
+import type { ParameterTable } from './parameterTable';
+
+export interface DashboardState {
+  listen: string;
+  echoTarget: string | null;
+  link: LinkOptions;
+  incoming: LinkStats;
+  outgoing: LinkStats;
+  received: number;
+  pings: number;
+  lastPingAt: number | null;
+  table: ParameterTable;
+  startedAt: number;
+}
+
+const ESC = '\x1b[';
+const dim = (text: string) => `${ESC}2m${text}${ESC}0m`;
+const bold = (text: string) => `${ESC}1m${text}${ESC}0m`;
+const green = (text: string) => `${ESC}32m${text}${ESC}0m`;
+
+// Anything touched this recently is highlighted
+const FRESH_MS = 500;
+
+const formatArg = (arg: OSCArg) => {
+  if (typeof arg.value === 'number') {
+    return Number.isInteger(arg.value) && arg.type !== 'f' ? String(arg.value) : arg.value.toFixed(3);
+  }
+  if (typeof arg.value === 'string') {
+    return JSON.stringify(arg.value.length > 24 ? `${arg.value.slice(0, 23)}…` : arg.value);
+  }
+  return arg.value === undefined ? arg.type : JSON.stringify(arg.value);
+};
+
+const formatAgo = (ms: number) => (ms < 1000 ? `${ms}ms` : ms < 60_000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60_000)}m`);
+
+const formatLink = ({ latency, jitter, loss }: LinkOptions) =>
+  latency === 0 && jitter === 0 && loss === 0
+    ? 'perfect'
+    : `${latency}ms${jitter > 0 ? ` +0-${jitter}ms` : ''} latency, ${Math.round(loss * 100)}% loss`;
+
+export const renderDashboard = (state: DashboardState, width: number, height: number, now = Date.now()) => {
+  const lines = [
+    bold('Mock TouchDesigner') + dim(`  up ${formatAgo(now - state.startedAt)}`),
+    `Listening on ${state.listen}   Echo → ${state.echoTarget ?? 'off'}   Link: ${formatLink(state.link)}`,
+    `Received ${state.received}  lost in ${state.incoming.lost}  ·  echoed ${state.outgoing.delivered}  lost out ${state.outgoing.lost}  ·  `
+      + `pings ${state.pings}${state.lastPingAt ? ` (last ${formatAgo(now - state.lastPingAt)} ago)` : ''}`,
+    '',
+  ];
+
+  const entries = state.table.list();
+  const addressWidth = Math.min(40, Math.max(7, ...entries.map((entry) => entry.address.length)));
+  lines.push(dim(`${'Address'.padEnd(addressWidth)}  ${'Count'.padStart(6)}  ${'Age'.padStart(6)}  Values`));
+
+  // Leave room for the header and the key help
+  const room = Math.max(0, height - lines.length - 2);
+  entries.slice(0, room).forEach((entry) => {
+    const age = now - entry.updatedAt;
+    const address = entry.address.length > addressWidth ? `${entry.address.slice(0, addressWidth - 1)}…` : entry.address.padEnd(addressWidth);
+    const line = `${age < FRESH_MS ? green(address) : address}  ${String(entry.count).padStart(6)}  ${formatAgo(age).padStart(6)}  ${entry.args.map(formatArg).join('  ')}`;
+    lines.push(line);
+  });
+  if (entries.length === 0) {
+    lines.push(dim('No messages yet - move something in the panel'));
+  } else if (entries.length > room) {
+    lines.push(dim(`… ${entries.length - room} more`));
+  }
+
+  lines.push('', dim('q quit · r send /resync · c clear table'));
+  // Cut lines to the terminal width, ignoring the escape codes when measuring
+  return lines.map((line) => {
+    const visible = line.replace(/\x1b\[\d+m/g, '');
+    return visible.length > width ? visible.slice(0, width) : line;
+  });
+};
+
+/** Redraws the dashboard on an interval; on a non-TTY stream it prints a summary line instead */
+export const createDashboard = (
+  stream: NodeJS.WriteStream,
+  getState: () => DashboardState,
+  interactive = Boolean(stream.isTTY),
+  interval = 250,
+) => {
+  let timer: NodeJS.Timeout | null = null;
+
+  const draw = () => {
+    const state = getState();
+    if (!interactive) {
+      stream.write(`📊 ${state.table.size} addresses, ${state.received} received, ${state.outgoing.delivered} echoed, ${state.pings} pings\n`);
+      return;
+    }
+    const lines = renderDashboard(state, stream.columns || 100, stream.rows || 30);
+    // Home the cursor and clear each line as it is rewritten, then everything below
+    stream.write(`${ESC}H${lines.map((line) => `${line}${ESC}K`).join('\n')}\n${ESC}J`);
+  };
+
+  return {
+    interactive,
+
+    start() {
+      if (timer) return;
+      if (interactive) stream.write(`${ESC}?1049h${ESC}?25l`); // Alternate screen, hide cursor
+      draw();
+      timer = setInterval(draw, interactive ? interval : 5000);
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+      if (interactive) stream.write(`${ESC}?25h${ESC}?1049l`);
+    },
+  };
+};
@@ -0,0 +1,161 @@
+// mock-td - Stand-in for TouchDesigner when developing without it
+//
+// Listens for OSC on TOUCHDESIGNER_PORT like TD's OSC In DAT, keeps the last
+// values per address, echoes them back to the bridge's UDP listen port like the
+// show file's OSC Out, answers the bridge's health pings and asks the panels
+// for their state on start. Run with `npm run mock-td -- --latency 50 --loss 0.05`.
+import 'dotenv/config';
+import dgram from 'dgram';
+import readline from 'readline';
+import { parseArgs } from 'util';
+import osc, { type OSCMessage, type OSCPacket } from 'osc';
+import { createDashboard } from './dashboard';
+import { createLink } from './link';
+import { createParameterTable } from './parameterTable';
+
+const { values: flags } = parseArgs({
+  options: {
+    host: { type: 'string' },
+    port: { type: 'string' },
+    latency: { type: 'string' },
+    jitter: { type: 'string' },
+    loss: { type: 'string' },
+    'no-echo': { type: 'boolean' },
+    'no-dashboard': { type: 'boolean' },
+  },
+});
+
+const number = (flag: string | undefined, env: string | undefined, fallback: number) => {
+  const value = Number(flag ?? env ?? fallback);
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const LISTEN_HOST = flags.host ?? process.env.MOCK_TD_HOST ?? '0.0.0.0';
+const LISTEN_PORT = number(flags.port, process.env.TOUCHDESIGNER_PORT, 7000);
+// Where the bridge listens for feedback from TD
+const BRIDGE_HOST = process.env.BRIDGE_UDP_LISTEN_HOST || '127.0.0.1';
+const BRIDGE_PORT = number(undefined, process.env.BRIDGE_UDP_LISTEN_PORT, 57121);
+const ECHO = !flags['no-echo'] && process.env.MOCK_TD_ECHO !== 'false';
+const PING_ADDRESS = process.env.BRIDGE_TD_PING_ADDRESS || '/ping';
+const RESYNC_ADDRESS = process.env.BRIDGE_RESYNC_ADDRESS || '/resync';
+
+const linkOptions = {
+  latency: Math.max(0, number(flags.latency, process.env.MOCK_TD_LATENCY, 0)),
+  jitter: Math.max(0, number(flags.jitter, process.env.MOCK_TD_JITTER, 0)),
+  loss: Math.min(1, Math.max(0, number(flags.loss, process.env.MOCK_TD_LOSS, 0))),
+};
+
+// Each direction loses and delays packets on its own, like a real network
+const incoming = createLink(linkOptions);
+const outgoing = createLink(linkOptions);
+const table = createParameterTable();
+const startedAt = Date.now();
+let received = 0;
+let unreadable = 0;
+let pings = 0;
+let lastPingAt: number | null = null;
+
+const socket = dgram.createSocket('udp4');
+
+const sendToBridge = (packet: OSCPacket) => {
+  const buffer = Buffer.from(osc.writePacket(packet, { metadata: true }));
+  outgoing.send(() => socket.send(buffer, BRIDGE_PORT, BRIDGE_HOST));
+};
+
+const flatten = (packet: OSCPacket): OSCMessage[] =>
+  'packets' in packet ? packet.packets.flatMap(flatten) : [packet];
+
+const handlePacket = (packet: OSCPacket) => {
+  received++;
+  const now = Date.now();
+  const echoed: OSCMessage[] = [];
+
+  flatten(packet).forEach((message) => {
+    if (message.address === PING_ADDRESS) {
+      // The bridge's probe expects its id back on the same address
+      pings++;
+      lastPingAt = now;
+      sendToBridge(message);
+      return;
+    }
+    table.set(message.address, message.args, now);
+    echoed.push(message);
+  });
+
+  if (ECHO && echoed.length > 0) {
+    sendToBridge(echoed.length === 1 ? echoed[0] : { timeTag: { raw: [0, 1] }, packets: echoed });
+  }
+};
+
+socket.on('message', (data) => {
+  incoming.send(() => {
+    let packet: OSCPacket;
+    try {
+      packet = osc.readPacket(data, { metadata: true });
+    } catch {
+      // The bridge sends a raw test string on startup
+      unreadable++;
+      return;
+    }
+    handlePacket(packet);
+  });
+});
+
+const dashboard = createDashboard(process.stdout, () => ({
+  listen: `${LISTEN_HOST}:${LISTEN_PORT}`,
+  echoTarget: ECHO ? `${BRIDGE_HOST}:${BRIDGE_PORT}` : null,
+  link: linkOptions,
+  incoming: incoming.stats,
+  outgoing: outgoing.stats,
+  received,
+  pings,
+  lastPingAt,
+  table,
+  startedAt,
+}), process.stdout.isTTY && !flags['no-dashboard']);
+
+const requestResync = () => sendToBridge({ address: RESYNC_ADDRESS, args: [] });
+
+const shutdown = () => {
+  dashboard.stop();
+  incoming.close();
+  outgoing.close();
+  socket.close();
+  if (process.stdin.isTTY) process.stdin.setRawMode(false);
+  console.log(`👋 Mock TouchDesigner stopped (${received} packets, ${unreadable} unreadable, ${table.size} addresses)`);
+  process.exit(0);
+};
+
+socket.on('error', (error) => {
+  dashboard.stop();
+  console.error(`❌ Mock TouchDesigner socket error: ${error.message}`);
+  process.exit(1);
+});
+
+socket.bind(LISTEN_PORT, LISTEN_HOST, () => {
+  if (!dashboard.interactive) {
+    console.log(`🎛  Mock TouchDesigner listening on ${LISTEN_HOST}:${LISTEN_PORT}`);
+    console.log(`   Echo: ${ECHO ? `${BRIDGE_HOST}:${BRIDGE_PORT}` : 'off'}`);
+    console.log(`   Link: ${linkOptions.latency}ms latency, ${linkOptions.jitter}ms jitter, ${linkOptions.loss * 100}% loss`);
+  }
+  // Like the show file's onStart: ask the panels to send everything they have
+  requestResync();
+  dashboard.start();
+});
+
+if (dashboard.interactive && process.stdin.isTTY) {
+  readline.emitKeypressEvents(process.stdin);
+  process.stdin.setRawMode(true);
+  process.stdin.on('keypress', (_text, key: readline.Key) => {
+    if (key.name === 'q' || (key.ctrl && key.name === 'c')) {
+      shutdown();
+    } else if (key.name === 'r') {
+      requestResync();
+    } else if (key.name === 'c') {
+      table.clear();
+    }
+  });
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,53 @@
+// Simulated network between the bridge and TouchDesigner: delay, jitter and packet loss
+
+export interface LinkOptions {
+  /** Delay added to every packet in ms */
+  latency: number;
+  /** Random extra delay of up to this many ms */
+  jitter: number;
+  /** Probability (0-1) that a packet is lost */
+  loss: number;
+}
+
+export interface LinkStats {
+  delivered: number;
+  lost: number;
+}
+
+export const createLink = (options: LinkOptions) => {
+  const stats: LinkStats = { delivered: 0, lost: 0 };
+  const timers = new Set<NodeJS.Timeout>();
+
+  return {
+    options,
+    stats,
+
+    /** Run `deliver` after the simulated delay, unless the packet is lost */
+    send(deliver: () => void) {
+      if (options.loss > 0 && Math.random() < options.loss) {
+        stats.lost++;
+        return;
+      }
+      const delay = options.latency + Math.random() * options.jitter;
+      if (delay <= 0) {
+        stats.delivered++;
+        deliver();
+        return;
+      }
+      const timer = setTimeout(() => {
+        timers.delete(timer);
+        stats.delivered++;
+        deliver();
+      }, delay);
+      timers.add(timer);
+    },
+
+    /** Drop everything still in flight */
+    close() {
+      timers.forEach(clearTimeout);
+      timers.clear();
+    },
+  };
+};
+
+export type Link = ReturnType<typeof createLink>;
@@ -0,0 +1,28 @@
+// The parts of osc.js the mock uses; the package ships without type declarations
+declare module 'osc' {
+  export interface OSCArg {
+    type: string;
+    value?: unknown;
+  }
+
+  export interface OSCMessage {
+    address: string;
+    args: OSCArg[];
+  }
+
+  export interface OSCBundle {
+    timeTag: { raw?: [number, number]; native?: number };
+    packets: OSCPacket[];
+  }
+
+  export type OSCPacket = OSCMessage | OSCBundle;
+
+  export function readPacket(data: Uint8Array, options?: { metadata?: boolean }): OSCPacket;
+  export function writePacket(packet: OSCPacket, options?: { metadata?: boolean }): Uint8Array;
+
+  const osc: {
+    readPacket: typeof readPacket;
+    writePacket: typeof writePacket;
+  };
+  export default osc;
+}
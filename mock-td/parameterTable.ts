@@ -0,0 +1,40 @@
+// Last values TouchDesigner would hold for each address it has been sent
+import type { OSCArg } from 'osc';
+
+export interface ParameterEntry {
+  address: string;
+  args: OSCArg[];
+  /** Messages received for this address */
+  count: number;
+  updatedAt: number;
+}
+
+export const createParameterTable = () => {
+  const entries = new Map<string, ParameterEntry>();
+
+  return {
+    set(address: string, args: OSCArg[], now = Date.now()) {
+      const previous = entries.get(address);
+      entries.set(address, { address, args, count: (previous?.count ?? 0) + 1, updatedAt: now });
+    },
+
+    get(address: string) {
+      return entries.get(address);
+    },
+
+    /** Sorted by address so the dashboard doesn't jump around */
+    list(): ParameterEntry[] {
+      return [...entries.values()].sort((a, b) => a.address.localeCompare(b.address));
+    },
+
+    get size() {
+      return entries.size;
+    },
+
+    clear() {
+      entries.clear();
+    },
+  };
+};
+
+export type ParameterTable = ReturnType<typeof createParameterTable>;
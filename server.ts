@@ -0,0 +1,51 @@
+// server.ts - The panel and the OSC bridge in one process, on one origin
+//
+// Serves the Next.js app and mounts the bridge on /osc: the WebSocket plus its
+// /osc/health, /osc/stats and /osc/discover endpoints. Panels served from here
+// connect to their own host, so NEXT_PUBLIC_OSC_BRIDGE_HOST can stay unset.
+// `npm run dev:embedded` for development, `npm run build && npm run start:embedded`
+// for production. The standalone bridge (npm run bridge) is still there for
+// setups where it runs on another machine than the panel.
+import { createServer } from 'http';
+import next from 'next';
+import { createBridge } from './bridge/server';
+
+const BRIDGE_PATH = '/osc';
+const dev = !process.argv.includes('--production');
+const hostname = process.env.HOSTNAME || '0.0.0.0';
+const port = parseInt(process.env.PORT || '3000');
+
+const server = createServer();
+// Next.js adds its own upgrade handler (hot reload) to this server and leaves /osc to the bridge
+const app = next({ dev, hostname, port, httpServer: server, turbopack: dev });
+const handle = app.getRequestHandler();
+
+let bridge: ReturnType<typeof createBridge>;
+try {
+  bridge = createBridge({ server, path: BRIDGE_PATH, port });
+} catch {
+  // Already logged by the bridge
+  process.exit(1);
+}
+
+app.prepare().then(() => {
+  server.on('request', (request, response) => {
+    if (!bridge.handleRequest(request, response)) {
+      handle(request, response);
+    }
+  });
+  server.listen(port, hostname, () => {
+    console.log(`🖥  Panel ready on http://localhost:${port} (${dev ? 'development' : 'production'}), bridge on ${BRIDGE_PATH}`);
+  });
+  bridge.start();
+}).catch((error) => {
+  console.error('❌ Failed to start Next.js:', error);
+  bridge.close();
+  process.exit(1);
+});
+
+process.on('SIGINT', () => {
+  bridge.close();
+  server.close();
+  process.exit(0);
+});
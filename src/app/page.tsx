@@ -1,26 +1,124 @@
 'use client';
 
 import React, { useState } from 'react';
-import { useOSC } from '@/hooks/useOSC';
+import { useOSC, canControl } from '@/hooks/useOSC';
+import { useRemoteSync } from '@/hooks/useRemoteSync';
+import { useBridgeTarget } from '@/hooks/useBridgeTarget';
+import { collectResyncMessages } from '@/store/oscBindings';
 import { PromptView, FXView, FeedbackView, LightsView } from '@/views';
 import ConnectionStatus from '@/components/ConnectionStatus';
+import BridgeSettings from '@/components/BridgeSettings';
+import BridgePicker from '@/components/BridgePicker';
+import BridgeDiagnostics from '@/components/BridgeDiagnostics';
+import SessionRecorder from '@/components/SessionRecorder';
+import DeliveryToasts from '@/components/DeliveryToasts';
 
 export default function Home() {
-  const { isConnected, connectionStatus, bridgeInfo, error, connect, disconnect, send } = useOSC();
+  // Bridge picked in the panel, or the build-time default
+  const { target, isCustom, setTarget } = useBridgeTarget();
+  const {
+    isConnected,
+    connectionStatus,
+    bridgeInfo,
+    tdStatus,
+    role,
+    authRequired,
+    authError,
+    certificateUrl,
+    login,
+    logout,
+    error,
+    pendingCount,
+    isBuffering,
+    discardPending,
+    resync,
+    reconnectAttempt,
+    nextRetryAt,
+    retryNow,
+    latency,
+    failedAddresses,
+    deliveryLog,
+    clearDeliveryLog,
+    getBridgeConfig,
+    setBridgeConfig,
+    testDestination,
+    getBridgeStats,
+    recorderState,
+    replayState,
+    listSessions,
+    startRecording,
+    stopRecording,
+    controlReplay,
+    connect,
+    disconnect,
+    send,
+    sendNow,
+    subscribe
+  } = useOSC({
+    bridgeHost: target?.host,
+    bridgePort: target?.port,
+    bridgePath: target?.path,
+    secure: target?.secure,
+    // Wait until the remembered bridge is known
+    autoConnect: target !== null,
+    getResyncMessages: collectResyncMessages,
+  });
   const [activeTab, setActiveTab] = useState('prompt');
 
-  // Get bridge connection details for error context
-  const bridgeHost = process.env.NEXT_PUBLIC_OSC_BRIDGE_HOST || 'localhost';
-  const bridgePort = parseInt(process.env.NEXT_PUBLIC_OSC_BRIDGE_PORT || '8080');
+  // Keep the stores in step with values reported back by TouchDesigner
+  useRemoteSync(subscribe);
+
+  // Controls stay usable through a connection drop; changes are queued and replayed.
+  // Viewers only watch.
+  const canSend = (isConnected || isBuffering) && canControl(role);
 
   const tabs = [
-    { id: 'prompt', label: 'Prompt', component: <PromptView isConnected={isConnected} onSend={send} /> },
-    { id: 'prefx', label: 'PreFX', component: <FXView isConnected={isConnected} onSend={send} fxType="pre" /> },
-    { id: 'postfx', label: 'PostFX', component: <FXView isConnected={isConnected} onSend={send} fxType="post" /> },
-    { id: 'feedback', label: 'Feedback', component: <FeedbackView isConnected={isConnected} onSend={send} /> },
-    { id: 'lights', label: 'Lights', component: <LightsView isConnected={isConnected} onSend={send} /> },
+    { id: 'prompt', label: 'Prompt', component: <PromptView isConnected={canSend} onSend={send} failedAddresses={failedAddresses} /> },
+    { id: 'prefx', label: 'PreFX', component: <FXView isConnected={canSend} onSend={send} onSendNow={sendNow} fxType="pre" failedAddresses={failedAddresses} /> },
+    { id: 'postfx', label: 'PostFX', component: <FXView isConnected={canSend} onSend={send} onSendNow={sendNow} fxType="post" failedAddresses={failedAddresses} /> },
+    { id: 'feedback', label: 'Feedback', component: <FeedbackView isConnected={canSend} onSend={send} onSendNow={sendNow} failedAddresses={failedAddresses} /> },
+    { id: 'lights', label: 'Lights', component: <LightsView isConnected={canSend} onSend={send} failedAddresses={failedAddresses} /> },
   ];
 
+  // Recording and playback go through the bridge, so they need a live connection
+  if (canControl(role)) {
+    tabs.push({
+      id: 'sessions',
+      label: 'Sessions',
+      component: (
+        <SessionRecorder
+          isConnected={isConnected}
+          recorderState={recorderState}
+          replayState={replayState}
+          onListSessions={listSessions}
+          onStartRecording={startRecording}
+          onStopRecording={stopRecording}
+          onReplay={controlReplay}
+        />
+      ),
+    });
+  }
+
+  // Bridge settings and diagnostics are only offered to admins
+  if (role === 'admin') {
+    tabs.push({
+      id: 'settings',
+      label: 'Bridge',
+      component: (
+        <BridgeSettings
+          canEdit={isConnected}
+          onLoad={getBridgeConfig}
+          onSave={setBridgeConfig}
+          onTestDestination={testDestination}
+        />
+      ),
+    }, {
+      id: 'diagnostics',
+      label: 'Diagnostics',
+      component: <BridgeDiagnostics isConnected={isConnected} onFetchStats={getBridgeStats} />,
+    });
+  }
+
   return (
     <div className="h-screen flex flex-col bg-background">
       {/* Connection Status Header */}
@@ -29,8 +127,23 @@ export default function Home() {
         isConnected={isConnected}
         bridgeInfo={bridgeInfo || undefined}
         error={error || undefined}
-        bridgeHost={bridgeHost}
-        bridgePort={bridgePort}
+        bridgeHost={target?.host}
+        bridgePort={target?.port}
+        pendingCount={pendingCount}
+        onDiscardPending={discardPending}
+        onResync={resync}
+        reconnectAttempt={reconnectAttempt}
+        nextRetryAt={nextRetryAt}
+        onRetryNow={retryNow}
+        latency={latency}
+        tdStatus={tdStatus}
+        role={role}
+        authRequired={authRequired}
+        authError={authError}
+        onLogin={login}
+        onLogout={logout}
+        certificateUrl={certificateUrl}
+        bridgePicker={target && <BridgePicker target={target} isCustom={isCustom} onSelect={setTarget} />}
         onConnect={connect}
         onDisconnect={disconnect}
       />
@@ -64,6 +177,9 @@ export default function Home() {
           {tabs.find(tab => tab.id === activeTab)?.component}
         </div>
       </div>
+
+      {/* Sends the bridge couldn't deliver */}
+      <DeliveryToasts log={deliveryLog} onClear={clearDeliveryLog} />
     </div>
   );
 }
\ No newline at end of file
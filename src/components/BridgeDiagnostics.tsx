@@ -0,0 +1,183 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import type { BridgeStats } from '@/hooks/useOSC';
+import Sparkline from './common/Sparkline';
+
+interface BridgeDiagnosticsProps {
+  /** Poll only while the bridge is reachable */
+  isConnected: boolean;
+  /** Fetch the bridge's /stats report */
+  onFetchStats: () => Promise<BridgeStats>;
+  /** Poll interval in ms (default: 2000) */
+  interval?: number;
+}
+
+const RATE_HISTORY_SIZE = 60;
+const MAX_ADDRESSES = 25;
+
+const formatUptime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return h > 0 ? `${h}h ${m}m` : m > 0 ? `${m}m ${s}s` : `${s}s`;
+};
+
+const formatAgo = (timestamp: number | null, now: number) =>
+  timestamp ? `${Math.max(0, Math.round((now - timestamp) / 1000))}s ago` : '—';
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; warn?: boolean }> = ({ label, value, warn }) => (
+  <div className="border border-border rounded-lg px-4 py-3">
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className={`text-lg font-medium ${warn ? 'text-destructive' : 'text-foreground'}`}>{value}</div>
+  </div>
+);
+
+const BridgeDiagnostics: React.FC<BridgeDiagnosticsProps> = ({
+  isConnected,
+  onFetchStats,
+  interval = 2000,
+}) => {
+  const [stats, setStats] = useState<BridgeStats | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [rateHistory, setRateHistory] = useState<number[]>([]);
+  const fetchRef = useRef(onFetchStats);
+  fetchRef.current = onFetchStats;
+
+  useEffect(() => {
+    if (!isConnected) return;
+    let cancelled = false;
+
+    const poll = async () => {
+      try {
+        const next = await fetchRef.current();
+        if (cancelled) return;
+        setStats(next);
+        setError(null);
+        setRateHistory((history) => [...history, next.messages.perSecond].slice(-RATE_HISTORY_SIZE));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, interval);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [isConnected, interval]);
+
+  if (!stats) {
+    return (
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <p className="text-sm text-muted-foreground">
+          {error ? `Could not load the bridge statistics: ${error}` : isConnected ? 'Loading bridge statistics…' : 'Connect to the bridge to see its statistics.'}
+        </p>
+      </div>
+    );
+  }
+
+  const now = stats.startedAt + stats.uptime;
+  const sendErrors = (['udp', 'tcp'] as const).flatMap((transport) =>
+    Object.entries(stats.sendErrors[transport]).map(([code, count]) => ({ transport, code, count })));
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-destructive">Showing the last report - {error}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+        <Stat label="Uptime" value={formatUptime(stats.uptime)} />
+        <Stat label="UDP socket" value={stats.udpReady ? 'Ready' : 'Not ready'} warn={!stats.udpReady} />
+        <Stat
+          label="Messages / s"
+          value={
+            <span className="flex items-center space-x-2">
+              <span>{stats.messages.perSecond}</span>
+              <Sparkline values={rateHistory} className="text-muted-foreground" />
+            </span>
+          }
+        />
+        <Stat label="Dropped" value={stats.dropped.total} warn={stats.dropped.total > 0} />
+        <Stat label="Encode failures" value={stats.encodeFailures} warn={stats.encodeFailures > 0} />
+        <Stat label="Send errors" value={sendErrors.reduce((sum, e) => sum + e.count, 0)} warn={sendErrors.length > 0} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Clients */}
+        <div className="bg-card rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-4 text-foreground">Clients ({stats.clients.length})</h2>
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr><th className="font-normal">IP</th><th className="font-normal">Role</th><th className="font-normal">Connected</th><th className="font-normal">Heartbeat</th><th className="font-normal">Protocol</th></tr>
+            </thead>
+            <tbody>
+              {stats.clients.map((client, i) => (
+                <tr key={i} className="border-t border-border">
+                  <td className="py-1 font-mono">{client.ip}</td>
+                  <td>{client.role ?? '—'}</td>
+                  <td>{formatUptime(now - client.connectedAt)}</td>
+                  <td>{formatAgo(client.lastHeartbeat, now)}</td>
+                  <td>{client.protocolVersion === null ? '—' : `v${client.protocolVersion}`}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Drops and errors */}
+        <div className="bg-card rounded-lg shadow-md p-6">
+          <h2 className="text-xl font-semibold mb-4 text-foreground">Drops and errors</h2>
+          <dl className="grid grid-cols-[1fr_auto] gap-x-4 gap-y-1 text-sm">
+            <dt className="text-muted-foreground">UDP socket not ready</dt><dd>{stats.dropped.notReady}</dd>
+            <dt className="text-muted-foreground">No matching route</dt><dd>{stats.dropped.noRoute}</dd>
+            <dt className="text-muted-foreground">Route disabled</dt><dd>{stats.dropped.disabled}</dd>
+            <dt className="text-muted-foreground">Failed validation</dt><dd>{stats.dropped.invalid}</dd>
+            <dt className="text-muted-foreground">Clamped into range</dt><dd>{stats.clamped}</dd>
+            <dt className="text-muted-foreground">Encode failures</dt><dd>{stats.encodeFailures}</dd>
+            {sendErrors.map(({ transport, code, count }) => (
+              <React.Fragment key={`${transport}-${code}`}>
+                <dt className="text-muted-foreground">{transport.toUpperCase()} {code}</dt>
+                <dd className="text-destructive">{count}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+          {stats.routes.some((route) => route.stats.lastError) && (
+            <ul className="mt-4 space-y-1 text-xs text-muted-foreground">
+              {stats.routes.filter((route) => route.stats.lastError).map((route) => (
+                <li key={route.name}>{route.name}: {route.stats.lastError}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {/* Addresses */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">Addresses</h2>
+        {stats.addresses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No messages yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-muted-foreground">
+              <tr><th className="font-normal">Address</th><th className="font-normal">Msg/s</th><th className="font-normal">Total</th><th className="font-normal">Last</th></tr>
+            </thead>
+            <tbody>
+              {stats.addresses.slice(0, MAX_ADDRESSES).map((address) => (
+                <tr key={address.address} className="border-t border-border">
+                  <td className="py-1 font-mono">{address.address}</td>
+                  <td>{address.perSecond}</td>
+                  <td>{address.total}</td>
+                  <td>{formatAgo(address.lastAt, now)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BridgeDiagnostics;
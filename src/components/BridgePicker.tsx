@@ -0,0 +1,147 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  bridgeSocketUrl,
+  defaultBridgeTarget,
+  discoverBridges,
+  sameBridgeTarget,
+  type BridgeTarget,
+  type DiscoveredBridge,
+} from '@/lib/bridgeDiscovery';
+
+interface BridgePickerProps {
+  /** Bridge the panel is using */
+  target: BridgeTarget;
+  /** Whether the target was picked here rather than coming from the build-time env */
+  isCustom: boolean;
+  /** Switch bridges; null goes back to the build-time default */
+  onSelect: (target: BridgeTarget | null) => void;
+}
+
+// Bridges that may answer the discovery request: the current one, the default
+// one and the machine serving the panel, which usually runs the bridge too
+const discoveryCandidates = (target: BridgeTarget): BridgeTarget[] => {
+  const candidates = [target, defaultBridgeTarget()];
+  if (typeof window !== 'undefined' && window.location.hostname) {
+    candidates.push({ ...defaultBridgeTarget(), host: window.location.hostname });
+  }
+  return candidates.filter((candidate, index) => candidates.findIndex((c) => sameBridgeTarget(c, candidate)) === index);
+};
+
+const BridgePicker: React.FC<BridgePickerProps> = ({ target, isCustom, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isScanning, setIsScanning] = useState(false);
+  const [bridges, setBridges] = useState<DiscoveredBridge[]>([]);
+  const [manualHost, setManualHost] = useState(target.host);
+  const [manualPort, setManualPort] = useState(String(target.port));
+
+  const scan = useCallback(async () => {
+    setIsScanning(true);
+    try {
+      setBridges(await discoverBridges(discoveryCandidates(target)));
+    } finally {
+      setIsScanning(false);
+    }
+  }, [target]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setManualHost(target.host);
+    setManualPort(String(target.port));
+    scan();
+  }, [isOpen, target, scan]);
+
+  const select = (next: BridgeTarget | null) => {
+    onSelect(next);
+    setIsOpen(false);
+  };
+
+  const handleManual = (e: React.FormEvent) => {
+    e.preventDefault();
+    const port = parseInt(manualPort);
+    if (!manualHost.trim() || !(port > 0 && port < 65536)) return;
+    // Typed in addresses are standalone bridges; embedded ones show up in the scan
+    select({ host: manualHost.trim(), port, secure: target.secure, path: '' });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        title="Choose the bridge to connect to"
+        className="bg-secondary hover:bg-secondary/80 text-secondary-foreground px-3 py-1 rounded text-sm transition-colors"
+      >
+        {target.host}:{target.port}{target.path} ▾
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 z-50 bg-card border border-border rounded-lg shadow-md p-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-foreground">Bridges on the network</span>
+            <Button variant="ghost" size="sm" onClick={scan} disabled={isScanning}>
+              {isScanning ? 'Scanning…' : 'Scan'}
+            </Button>
+          </div>
+
+          {bridges.length === 0 ? (
+            <p className="text-xs text-muted-foreground">
+              {isScanning ? 'Looking for bridges…' : 'No bridges found. Enter the address of the machine running the bridge below.'}
+            </p>
+          ) : (
+            <ul className="space-y-1">
+              {bridges.map((bridge) => {
+                const isCurrent = sameBridgeTarget(bridge, target);
+                return (
+                  <li key={`${bridge.name}:${bridge.port}${bridge.path}`}>
+                    <button
+                      onClick={() => select({ host: bridge.host, port: bridge.port, secure: bridge.secure, path: bridge.path })}
+                      disabled={isCurrent}
+                      className="w-full text-left rounded px-2 py-1 hover:bg-muted disabled:bg-muted transition-colors"
+                    >
+                      <span className="block text-sm text-foreground">
+                        {bridge.name}{isCurrent && ' ✓'}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        {bridgeSocketUrl(bridge)}
+                      </span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          <form onSubmit={handleManual} className="flex items-center space-x-1">
+            <Input
+              value={manualHost}
+              onChange={(e) => setManualHost(e.target.value)}
+              placeholder="Host"
+              aria-label="Bridge host"
+              className="h-8"
+            />
+            <Input
+              value={manualPort}
+              onChange={(e) => setManualPort(e.target.value)}
+              inputMode="numeric"
+              placeholder="Port"
+              aria-label="Bridge port"
+              className="h-8 w-20"
+            />
+            <Button type="submit" variant="outline" size="sm">Use</Button>
+          </form>
+
+          {isCustom && (
+            <Button variant="link" size="sm" className="px-0" onClick={() => select(null)}>
+              Back to the default bridge
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BridgePicker;
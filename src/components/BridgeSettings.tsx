@@ -0,0 +1,400 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { validateBridgeConfig } from '@/lib/bridgeConfig';
+import type {
+  BridgeConfig,
+  BridgeDestination,
+  BridgeLogLevel,
+  BridgeRouteConfig,
+  DestinationTestResult,
+} from '@/hooks/useOSC';
+
+interface BridgeSettingsProps {
+  /** Whether the panel is connected; the bridge only accepts changes from admins */
+  canEdit: boolean;
+  /** Load the running bridge config */
+  onLoad: () => Promise<BridgeConfig>;
+  /** Apply and persist a new config; resolves with what the bridge saved */
+  onSave: (config: BridgeConfig) => Promise<BridgeConfig>;
+  /** Check that a destination is reachable */
+  onTestDestination: (destination: BridgeDestination) => Promise<DestinationTestResult>;
+}
+
+const selectClassName = 'h-9 rounded-md border border-input bg-transparent dark:bg-input/30 px-2 text-sm';
+
+const LOG_LEVELS: BridgeLogLevel[] = ['error', 'warn', 'info', 'debug', 'trace'];
+
+const newDestination = (): BridgeDestination => ({ host: '127.0.0.1', port: 7000, transport: 'udp' });
+
+const BridgeSettings: React.FC<BridgeSettingsProps> = ({
+  canEdit,
+  onLoad,
+  onSave,
+  onTestDestination,
+}) => {
+  const [config, setConfig] = useState<BridgeConfig | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+  // Keyed by `${routeIndex}.${destinationIndex}`; 'pending' while a test runs
+  const [testResults, setTestResults] = useState<Record<string, DestinationTestResult | 'pending' | string>>({});
+
+  const errors = useMemo(() => (config ? validateBridgeConfig(config) : {}), [config]);
+  const hasErrors = Object.keys(errors).length > 0;
+
+  const load = useCallback(async () => {
+    setLoadError(null);
+    try {
+      setConfig(await onLoad());
+      setIsDirty(false);
+      setTestResults({});
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : String(err));
+    }
+  }, [onLoad]);
+
+  useEffect(() => {
+    if (canEdit) load();
+  }, [canEdit, load]);
+
+  const update = useCallback((next: BridgeConfig) => {
+    setConfig(next);
+    setIsDirty(true);
+    setSavedAt(null);
+  }, []);
+
+  const updateRoute = (index: number, changes: Partial<BridgeRouteConfig>) => {
+    if (!config) return;
+    update({ ...config, routes: config.routes.map((route, r) => (r === index ? { ...route, ...changes } : route)) });
+  };
+
+  const updateDestination = (routeIndex: number, index: number, changes: Partial<BridgeDestination>) => {
+    if (!config) return;
+    const destinations = config.routes[routeIndex].destinations.map((destination, d) => {
+      if (d !== index) return destination;
+      const next = { ...destination, ...changes };
+      // Framing only applies to TCP
+      if (next.transport === 'udp') delete next.framing;
+      if (next.transport === 'tcp' && !next.framing) next.framing = 'slip';
+      return next;
+    });
+    updateRoute(routeIndex, { destinations });
+  };
+
+  const moveRoute = (index: number, offset: number) => {
+    if (!config) return;
+    const target = index + offset;
+    if (target < 0 || target >= config.routes.length) return;
+    const routes = [...config.routes];
+    [routes[index], routes[target]] = [routes[target], routes[index]];
+    update({ ...config, routes });
+  };
+
+  const handleSave = async () => {
+    if (!config || hasErrors) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      setConfig(await onSave(config));
+      setIsDirty(false);
+      setSavedAt(Date.now());
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTest = async (key: string, destination: BridgeDestination) => {
+    setTestResults((previous) => ({ ...previous, [key]: 'pending' }));
+    try {
+      const result = await onTestDestination(destination);
+      setTestResults((previous) => ({ ...previous, [key]: result }));
+    } catch (err) {
+      setTestResults((previous) => ({ ...previous, [key]: err instanceof Error ? err.message : String(err) }));
+    }
+  };
+
+  const renderTestResult = (key: string) => {
+    const result = testResults[key];
+    if (!result) return null;
+    if (result === 'pending') return <span className="text-xs text-muted-foreground">Testing…</span>;
+    if (typeof result === 'string') return <span className="text-xs text-destructive">{result}</span>;
+    if (result.ok) {
+      return (
+        <span className="text-xs text-green-600">
+          {result.transport === 'tcp' ? '✅ Connected' : '✅ Sent (UDP can’t confirm delivery)'}
+        </span>
+      );
+    }
+    return <span className="text-xs text-destructive">❌ {result.error}</span>;
+  };
+
+  const fieldError = (path: string) =>
+    errors[path] ? <p className="text-xs text-destructive mt-1">{errors[path]}</p> : null;
+
+  if (!canEdit) {
+    return (
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <p className="text-sm text-muted-foreground">
+          Reconnect to the bridge to change its settings.
+        </p>
+      </div>
+    );
+  }
+
+  if (!config) {
+    return (
+      <div className="bg-card rounded-lg shadow-md p-6 space-y-2">
+        <p className="text-sm text-muted-foreground">{loadError ? `Could not load the bridge config: ${loadError}` : 'Loading bridge config…'}</p>
+        {loadError && <Button variant="outline" size="sm" onClick={load}>Retry</Button>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* TouchDesigner */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">TouchDesigner</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Target of the health probe shown in the header. Set the probe interval to 0 to disable it.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Host</span>
+            <Input
+              value={config.touchdesigner.host}
+              aria-invalid={Boolean(errors['touchdesigner.host'])}
+              onChange={(event) => update({ ...config, touchdesigner: { ...config.touchdesigner, host: event.target.value } })}
+            />
+            {fieldError('touchdesigner.host')}
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Port</span>
+            <Input
+              type="number"
+              value={config.touchdesigner.port}
+              aria-invalid={Boolean(errors['touchdesigner.port'])}
+              onChange={(event) => update({ ...config, touchdesigner: { ...config.touchdesigner, port: Number(event.target.value) } })}
+            />
+            {fieldError('touchdesigner.port')}
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Probe interval (ms)</span>
+            <Input
+              type="number"
+              value={config.touchdesigner.probeInterval}
+              aria-invalid={Boolean(errors['touchdesigner.probeInterval'])}
+              onChange={(event) => update({ ...config, touchdesigner: { ...config.touchdesigner, probeInterval: Number(event.target.value) } })}
+            />
+            {fieldError('touchdesigner.probeInterval')}
+          </label>
+        </div>
+      </div>
+
+      {/* Routes */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">Routes</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Routes are checked top to bottom and the first match wins. Match by address prefix (<code>/pre</code>) or OSC pattern (<code>/{'{pre,post}'}/tint</code>).
+        </p>
+        {errors.routes && <p className="text-sm text-destructive mb-4">{errors.routes}</p>}
+
+        <div className="space-y-4">
+          {config.routes.map((route, r) => (
+            <div key={r} className="border border-border rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-3 items-start">
+                <label className="text-sm space-y-1">
+                  <span className="text-muted-foreground">Name</span>
+                  <Input
+                    value={route.name}
+                    aria-invalid={Boolean(errors[`routes.${r}.name`])}
+                    onChange={(event) => updateRoute(r, { name: event.target.value })}
+                  />
+                  {fieldError(`routes.${r}.name`)}
+                </label>
+                <label className="text-sm space-y-1">
+                  <span className="text-muted-foreground">Match</span>
+                  <Input
+                    value={route.match}
+                    aria-invalid={Boolean(errors[`routes.${r}.match`])}
+                    onChange={(event) => updateRoute(r, { match: event.target.value })}
+                  />
+                  {fieldError(`routes.${r}.match`)}
+                </label>
+                <div className="flex items-center space-x-2 md:pt-6">
+                  <label className="flex items-center space-x-1 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={route.enabled}
+                      onChange={(event) => updateRoute(r, { enabled: event.target.checked })}
+                    />
+                    <span>Enabled</span>
+                  </label>
+                  <Button variant="ghost" size="sm" onClick={() => moveRoute(r, -1)} disabled={r === 0} aria-label="Move route up">↑</Button>
+                  <Button variant="ghost" size="sm" onClick={() => moveRoute(r, 1)} disabled={r === config.routes.length - 1} aria-label="Move route down">↓</Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => update({ ...config, routes: config.routes.filter((_, index) => index !== r) })}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {route.destinations.map((destination, d) => {
+                  const key = `${r}.${d}`;
+                  return (
+                    <div key={d} className="flex flex-wrap items-start gap-2">
+                      <div>
+                        <Input
+                          className="w-44"
+                          placeholder="Host"
+                          value={destination.host}
+                          aria-invalid={Boolean(errors[`routes.${r}.destinations.${d}.host`])}
+                          onChange={(event) => updateDestination(r, d, { host: event.target.value })}
+                        />
+                        {fieldError(`routes.${r}.destinations.${d}.host`)}
+                      </div>
+                      <div>
+                        <Input
+                          className="w-24"
+                          type="number"
+                          placeholder="Port"
+                          value={destination.port}
+                          aria-invalid={Boolean(errors[`routes.${r}.destinations.${d}.port`])}
+                          onChange={(event) => updateDestination(r, d, { port: Number(event.target.value) })}
+                        />
+                        {fieldError(`routes.${r}.destinations.${d}.port`)}
+                      </div>
+                      <select
+                        className={selectClassName}
+                        value={destination.transport}
+                        onChange={(event) => updateDestination(r, d, { transport: event.target.value as BridgeDestination['transport'] })}
+                      >
+                        <option value="udp">UDP</option>
+                        <option value="tcp">TCP</option>
+                      </select>
+                      {destination.transport === 'tcp' && (
+                        <select
+                          className={selectClassName}
+                          value={destination.framing ?? 'slip'}
+                          onChange={(event) => updateDestination(r, d, { framing: event.target.value as BridgeDestination['framing'] })}
+                        >
+                          <option value="slip">SLIP (OSC 1.1)</option>
+                          <option value="length">Length prefix (OSC 1.0)</option>
+                        </select>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="h-9"
+                        disabled={testResults[key] === 'pending' || Boolean(errors[`routes.${r}.destinations.${d}.host`] || errors[`routes.${r}.destinations.${d}.port`])}
+                        onClick={() => handleTest(key, destination)}
+                      >
+                        Test destination
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-9"
+                        onClick={() => updateRoute(r, { destinations: route.destinations.filter((_, index) => index !== d) })}
+                      >
+                        Remove
+                      </Button>
+                      <div className="h-9 flex items-center">{renderTestResult(key)}</div>
+                    </div>
+                  );
+                })}
+                {fieldError(`routes.${r}.destinations`)}
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="px-0"
+                  onClick={() => updateRoute(r, { destinations: [...route.destinations, newDestination()] })}
+                >
+                  + Add destination
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          className="mt-4"
+          onClick={() => update({
+            ...config,
+            routes: [...config.routes, { name: `route-${config.routes.length + 1}`, match: '/', enabled: true, destinations: [newDestination()] }],
+          })}
+        >
+          Add route
+        </Button>
+      </div>
+
+      {/* Logging */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">Logging</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          <code>info</code> is quiet enough for a show. <code>debug</code> adds a line per OSC address, <code>trace</code> adds packet details.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground block">Level</span>
+            <select
+              className={selectClassName}
+              value={config.logging.level}
+              onChange={(event) => update({ ...config, logging: { ...config.logging, level: event.target.value as BridgeLogLevel } })}
+            >
+              {LOG_LEVELS.map((level) => <option key={level} value={level}>{level}</option>)}
+            </select>
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground block">Format</span>
+            <select
+              className={selectClassName}
+              value={config.logging.format}
+              onChange={(event) => update({ ...config, logging: { ...config.logging, format: event.target.value as BridgeConfig['logging']['format'] } })}
+            >
+              <option value="pretty">Readable</option>
+              <option value="json">JSON lines</option>
+            </select>
+          </label>
+          <label className="text-sm space-y-1">
+            <span className="text-muted-foreground">Per-address sample interval (ms)</span>
+            <Input
+              type="number"
+              value={config.logging.sampleInterval}
+              aria-invalid={Boolean(errors['logging.sampleInterval'])}
+              onChange={(event) => update({ ...config, logging: { ...config.logging, sampleInterval: Number(event.target.value) } })}
+            />
+            {fieldError('logging.sampleInterval')}
+          </label>
+        </div>
+      </div>
+
+      {/* Save */}
+      <div className="flex items-center space-x-3">
+        <Button onClick={handleSave} disabled={!isDirty || hasErrors || isSaving}>
+          {isSaving ? 'Saving…' : 'Save and apply'}
+        </Button>
+        <Button variant="outline" onClick={load} disabled={isSaving}>
+          Revert
+        </Button>
+        {hasErrors && <span className="text-sm text-destructive">Fix the highlighted fields to save</span>}
+        {saveError && <span className="text-sm text-destructive">{saveError}</span>}
+        {savedAt && !isDirty && <span className="text-sm text-green-600">Saved - the bridge is using the new settings</span>}
+      </div>
+    </div>
+  );
+};
+
+export default BridgeSettings;
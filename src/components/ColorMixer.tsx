@@ -32,14 +32,14 @@ const ColorMixer: React.FC<ColorMixerProps> = ({
   const leftKeyRef = useRef(0);
   const rightKeyRef = useRef(0);
 
-  // Update keys when colors change from recalls
+  // Update keys when colors change from recalls or from TouchDesigner
   useEffect(() => {
-    if (lastChangeSource === 'recall') {
+    if (lastChangeSource === 'recall' || lastChangeSource === 'remote') {
       // Increment both keys to force both ColorPickers to re-render
       leftKeyRef.current += 1;
       rightKeyRef.current += 1;
     }
-  }, [lastChangeSource]); // Only depend on lastChangeSource to ensure both update together
+  }, [lastChangeSource, leftColor, rightColor]); // Remote updates can arrive back to back with the same source
 
   const handleLeftColorChange = useCallback((rgba: any) => {
     // Convert RGBA array to hex color
@@ -47,11 +47,13 @@ const ColorMixer: React.FC<ColorMixerProps> = ({
     const g = Math.round(rgba[1]);
     const b = Math.round(rgba[2]);
     const hexColor = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+    // Remounted pickers report their initial color - don't echo it back to TouchDesigner
+    if (hexColor === leftColor) return;
     
     // Update store and signal change to parent for OSC
     setColors(hexColor, rightColor, 'user');
     onChange(hexColor, rightColor);
-  }, [rightColor, onChange, setColors]);
+  }, [leftColor, rightColor, onChange, setColors]);
 
   const handleRightColorChange = useCallback((rgba: any) => {
     // Convert RGBA array to hex color
@@ -59,11 +61,13 @@ const ColorMixer: React.FC<ColorMixerProps> = ({
     const g = Math.round(rgba[1]);
     const b = Math.round(rgba[2]);
     const hexColor = `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+    // Remounted pickers report their initial color - don't echo it back to TouchDesigner
+    if (hexColor === rightColor) return;
     
     // Update store and signal change to parent for OSC
     setColors(leftColor, hexColor, 'user');
     onChange(leftColor, hexColor);
-  }, [leftColor, onChange, setColors]);
+  }, [leftColor, rightColor, onChange, setColors]);
   return (
     <div className="space-y-6">
       {/* Color Pickers Row */}
@@ -1,6 +1,9 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
+import { canControl } from '@/hooks/useOSC';
+import type { BridgeRoute, OSCLatency, OSCRole, TDStatus } from '@/hooks/useOSC';
+import Sparkline from './common/Sparkline';
 
 interface ConnectionStatusProps {
   /** Current connection status */
@@ -12,6 +15,7 @@ interface ConnectionStatusProps {
     message: string;
     touchdesignerHost?: string;
     touchdesignerPort?: number;
+    routes?: BridgeRoute[];
   };
   /** Error message if any */
   error?: string;
@@ -19,6 +23,36 @@ interface ConnectionStatusProps {
   bridgeHost?: string;
   /** Bridge port for error context */
   bridgePort?: number;
+  /** Number of addresses waiting to be replayed on reconnect */
+  pendingCount?: number;
+  /** Discard the offline send queue */
+  onDiscardPending?: () => void;
+  /** Push the full panel state to TouchDesigner */
+  onResync?: () => void;
+  /** Number of the scheduled reconnect attempt */
+  reconnectAttempt?: number;
+  /** Timestamp (ms) of the next automatic reconnect attempt */
+  nextRetryAt?: number | null;
+  /** Skip the backoff and reconnect now */
+  onRetryNow?: () => void;
+  /** Heartbeat round-trip measurements */
+  latency?: OSCLatency;
+  /** TouchDesigner liveness reported by the bridge */
+  tdStatus?: TDStatus | null;
+  /** Role granted by the bridge */
+  role?: OSCRole | null;
+  /** Whether the bridge requires a PIN */
+  authRequired?: boolean;
+  /** Reason the last login was rejected */
+  authError?: string | null;
+  /** Log in with a PIN */
+  onLogin?: (pin: string) => void;
+  /** Drop back to the anonymous role */
+  onLogout?: () => void;
+  /** Bridge URL to open when the browser rejected its TLS certificate */
+  certificateUrl?: string | null;
+  /** Bridge picker shown next to the connection controls */
+  bridgePicker?: React.ReactNode;
   /** Connect function */
   onConnect: () => void;
   /** Disconnect function */
@@ -32,9 +66,37 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
   error,
   bridgeHost,
   bridgePort,
+  pendingCount = 0,
+  onDiscardPending,
+  onResync,
+  reconnectAttempt = 0,
+  nextRetryAt = null,
+  onRetryNow,
+  latency,
+  tdStatus,
+  role = null,
+  authRequired = false,
+  authError,
+  onLogin,
+  onLogout,
+  certificateUrl,
+  bridgePicker,
   onConnect,
   onDisconnect,
 }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const [pin, setPin] = useState('');
+
+  // Tick while a retry is scheduled so the countdown stays current
+  useEffect(() => {
+    if (nextRetryAt === null) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [nextRetryAt]);
+
+  const retryInSeconds = nextRetryAt !== null ? Math.max(0, Math.ceil((nextRetryAt - now) / 1000)) : null;
+
   const getStatusColor = () => {
     switch (connectionStatus) {
       case 'connected': return 'text-green-600';
@@ -53,7 +115,53 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
     }
   };
 
+  const routes = bridgeInfo?.routes ?? [];
+  const hasRoutingTable = routes.length > 1 || (routes.length === 1 && routes[0].match !== '/');
+
+  const getTDStatusText = () => {
+    switch (tdStatus?.state) {
+      case 'online': return `TD online${tdStatus.rtt !== null ? ` (${tdStatus.rtt}ms)` : ''}`;
+      case 'offline': return 'TD offline';
+      case 'unreachable': return `TD unreachable${tdStatus.error ? ` (${tdStatus.error})` : ''}`;
+      default: return 'TD unknown';
+    }
+  };
+
+  const getTDStatusColor = () => {
+    switch (tdStatus?.state) {
+      case 'online': return 'text-green-600';
+      case 'offline': return 'text-red-600';
+      case 'unreachable': return 'text-red-600';
+      default: return 'text-gray-600';
+    }
+  };
+
+  const getRoleLabel = () => {
+    switch (role) {
+      case 'admin': return '🛠 Admin';
+      case 'operator': return '🎛 Operator';
+      case 'viewer': return '👁 Viewer';
+      default: return '🔒 Locked';
+    }
+  };
+
+  const handleLogin = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!pin || !onLogin) return;
+    onLogin(pin);
+    setPin('');
+  };
+
   const getStatusText = () => {
+    // With TD liveness reported separately, the bridge part only needs to say it's reachable
+    if (isConnected && tdStatus) {
+      return hasRoutingTable
+        ? `Bridge OK - ${routes.filter(route => route.enabled).length}/${routes.length} routes active`
+        : 'Bridge OK';
+    }
+    if (isConnected && hasRoutingTable) {
+      return `Connected - ${routes.filter(route => route.enabled).length}/${routes.length} routes active`;
+    }
     if (isConnected && bridgeInfo?.touchdesignerHost) {
       return `Connected to ${bridgeInfo.touchdesignerHost}:${bridgeInfo.touchdesignerPort}`;
     }
@@ -70,8 +178,119 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
             <span className={`font-medium text-sm ${getStatusColor()}`}>
               {getStatusText()}
             </span>
+            {isConnected && tdStatus && (
+              <span
+                className={`font-medium text-sm ${getTDStatusColor()}`}
+                title={`${tdStatus.host}:${tdStatus.port}${tdStatus.lastSeen ? ` - last reply ${new Date(tdStatus.lastSeen).toLocaleTimeString()}` : ''}`}
+              >
+                / {getTDStatusText()}
+              </span>
+            )}
           </div>
           
+          {isConnected && authRequired && (
+            <div className="flex items-center space-x-2">
+              <span
+                className="text-xs rounded px-2 py-0.5 border border-border text-foreground"
+                title={role === 'viewer' ? 'Read-only - log in with an operator PIN to control the show' : undefined}
+              >
+                {getRoleLabel()}
+              </span>
+              {role !== 'admin' && onLogin && (
+                <form onSubmit={handleLogin} className="flex items-center space-x-1">
+                  <input
+                    type="password"
+                    inputMode="numeric"
+                    autoComplete="off"
+                    value={pin}
+                    onChange={(event) => setPin(event.target.value)}
+                    placeholder="PIN"
+                    className="w-20 text-xs bg-background border border-border rounded px-2 py-0.5"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!pin}
+                    className="text-xs text-muted-foreground hover:text-foreground underline transition-colors"
+                  >
+                    Log in
+                  </button>
+                </form>
+              )}
+              {role !== null && role !== 'viewer' && onLogout && (
+                <button
+                  onClick={onLogout}
+                  className="text-xs text-muted-foreground hover:text-foreground underline transition-colors"
+                >
+                  Log out
+                </button>
+              )}
+              {authError && <span className="text-xs text-destructive">{authError}</span>}
+            </div>
+          )}
+
+          {isConnected && latency?.rtt != null && (
+            <div
+              className="flex items-center space-x-1 text-xs text-muted-foreground"
+              title={`Round-trip time to the bridge${latency.jitter != null ? `, jitter ${latency.jitter.toFixed(1)}ms` : ''}`}
+            >
+              <Sparkline values={latency.history} className="text-primary" />
+              <span>{Math.round(latency.rtt)}ms</span>
+              {latency.jitter != null && <span>±{latency.jitter.toFixed(0)}</span>}
+            </div>
+          )}
+
+          {isConnected && hasRoutingTable && (
+            <div className="flex flex-wrap items-center gap-2">
+              {routes.map((route) => (
+                <span
+                  key={route.name}
+                  className={`text-xs rounded px-2 py-0.5 border border-border ${route.enabled ? 'text-foreground' : 'text-muted-foreground line-through'}`}
+                  title={`${route.match} → ${route.destinations.map(d => `${d.transport === 'tcp' ? 'tcp://' : ''}${d.host}:${d.port}`).join(', ')}${route.stats.lastError ? ` (last error: ${route.stats.lastError})` : ''}`}
+                >
+                  {route.name} → {route.destinations.length === 1
+                    ? `${route.destinations[0].host}:${route.destinations[0].port}`
+                    : `${route.destinations.length} destinations`}
+                  {route.stats.errors > 0 && <span className="text-destructive ml-1">⚠ {route.stats.errors}</span>}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {!isConnected && retryInSeconds !== null && (
+            <div className="flex items-center space-x-2">
+              <span className="text-xs text-muted-foreground">
+                🔄 Retrying in {retryInSeconds}s (attempt {reconnectAttempt})
+              </span>
+              {onRetryNow && (
+                <button
+                  onClick={onRetryNow}
+                  className="text-xs text-muted-foreground hover:text-foreground underline transition-colors"
+                >
+                  Retry now
+                </button>
+              )}
+            </div>
+          )}
+
+          {pendingCount > 0 && (
+            <div className="flex items-center space-x-2">
+              <span
+                className="text-xs rounded-full px-2 py-0.5 bg-yellow-500/20 text-yellow-600 border border-yellow-500/40"
+                title="Latest value per address, sent automatically when the bridge connection is back"
+              >
+                ⏳ {pendingCount} queued
+              </span>
+              {onDiscardPending && (
+                <button
+                  onClick={onDiscardPending}
+                  className="text-xs text-muted-foreground hover:text-destructive underline transition-colors"
+                >
+                  Discard
+                </button>
+              )}
+            </div>
+          )}
+
           {error && (
             <span className="text-destructive text-sm">
               Error: {error}
@@ -80,12 +299,32 @@ const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
                   (trying to connect to {bridgeHost}:{bridgePort})
                 </span>
               )}
+              {certificateUrl && (
+                <span className="text-muted-foreground ml-1">
+                  - open{' '}
+                  <a href={certificateUrl} target="_blank" rel="noopener noreferrer" className="underline hover:text-foreground">
+                    {certificateUrl}
+                  </a>
+                  , accept the certificate, then retry
+                </span>
+              )}
             </span>
           )}
         </div>
 
         {/* Right side - Connection controls */}
         <div className="flex space-x-2">
+          {bridgePicker}
+          {onResync && (
+            <button
+              onClick={onResync}
+              disabled={!isConnected || !canControl(role)}
+              title="Re-send every parameter to TouchDesigner"
+              className="bg-secondary hover:bg-secondary/80 disabled:bg-muted text-secondary-foreground px-3 py-1 rounded text-sm transition-colors"
+            >
+              Resync
+            </button>
+          )}
           <button
             onClick={onConnect}
             disabled={isConnected}
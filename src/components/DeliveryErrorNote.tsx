@@ -0,0 +1,20 @@
+'use client';
+
+import React from 'react';
+import type { DeliveryError } from '@/hooks/useOSC';
+
+/** Ring for a control card whose last send failed */
+export const deliveryErrorRing = (error?: DeliveryError) =>
+  error ? 'ring-2 ring-destructive' : '';
+
+/** Why the last send from a control didn't reach TouchDesigner; nothing when it did */
+const DeliveryErrorNote: React.FC<{ error?: DeliveryError }> = ({ error }) => {
+  if (!error) return null;
+  return (
+    <p className="text-xs text-destructive mt-2" title={error.message}>
+      ⚠ {error.code}: {error.message}{error.count > 1 && ` (×${error.count})`}
+    </p>
+  );
+};
+
+export default DeliveryErrorNote;
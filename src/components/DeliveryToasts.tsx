@@ -0,0 +1,110 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { DeliveryLogEntry } from '@/hooks/useOSC';
+
+interface DeliveryToastsProps {
+  /** Failed sends, newest first */
+  log: DeliveryLogEntry[];
+  onClear: () => void;
+}
+
+// How long a failure stays up as a toast
+const TOAST_DURATION = 6000;
+const MAX_TOASTS = 3;
+
+const formatTime = (at: number) => new Date(at).toLocaleTimeString();
+
+// A repeat of a dismissed failure bumps its count and shows up again
+const toastKey = (entry: DeliveryLogEntry) => `${entry.id}-${entry.count}`;
+
+const DeliveryToasts: React.FC<DeliveryToastsProps> = ({ log, onClear }) => {
+  const [now, setNow] = useState(() => Date.now());
+  const [showLog, setShowLog] = useState(false);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+
+  const toasts = log
+    .filter((entry) => now - entry.at < TOAST_DURATION && !dismissed.has(toastKey(entry)))
+    .slice(0, MAX_TOASTS);
+  const nextExpiry = toasts.length > 0 ? Math.min(...toasts.map((entry) => entry.at)) + TOAST_DURATION : null;
+
+  // Re-render when a failure comes in and again when the oldest toast expires
+  useEffect(() => {
+    setNow(Date.now());
+  }, [log]);
+
+  useEffect(() => {
+    if (nextExpiry === null) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(0, nextExpiry - Date.now()));
+    return () => clearTimeout(timer);
+  }, [nextExpiry]);
+
+  if (log.length === 0) return null;
+
+  const dismiss = (entry: DeliveryLogEntry) => setDismissed((previous) => new Set(previous).add(toastKey(entry)));
+
+  const clear = () => {
+    onClear();
+    setDismissed(new Set());
+    setShowLog(false);
+  };
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 flex w-96 flex-col items-end gap-2">
+      {!showLog && toasts.map((entry) => (
+        <div
+          key={toastKey(entry)}
+          className="flex w-full items-start gap-2 rounded-lg border border-destructive bg-card p-3 shadow-md"
+          role="alert"
+        >
+          <AlertTriangle className="mt-0.5 size-4 shrink-0 text-destructive" />
+          <div className="min-w-0 flex-1 text-sm">
+            <div className="font-mono text-foreground truncate">{entry.address}</div>
+            <div className="text-muted-foreground">
+              {entry.code}: {entry.message}{entry.count > 1 && ` (×${entry.count})`}
+            </div>
+          </div>
+          <button
+            className="text-muted-foreground hover:text-foreground"
+            onClick={() => dismiss(entry)}
+            aria-label="Dismiss"
+          >
+            <X className="size-4" />
+          </button>
+        </div>
+      ))}
+
+      {showLog && (
+        <div className="w-full rounded-lg border border-border bg-card shadow-md">
+          <div className="flex items-center justify-between border-b border-border px-3 py-2">
+            <span className="text-sm font-medium text-foreground">Send errors</span>
+            <Button variant="ghost" size="sm" onClick={clear}>Clear</Button>
+          </div>
+          <ul className="max-h-72 overflow-auto text-sm">
+            {log.map((entry) => (
+              <li key={entry.id} className="border-b border-border px-3 py-2 last:border-b-0">
+                <div className="flex justify-between gap-2">
+                  <span className="font-mono text-foreground truncate">{entry.address}</span>
+                  <span className="text-xs text-muted-foreground">{formatTime(entry.at)}</span>
+                </div>
+                <div className="text-muted-foreground">
+                  <span className="text-destructive">{entry.code}</span>: {entry.message}
+                  {entry.count > 1 && ` (×${entry.count})`}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => setShowLog((open) => !open)}>
+        <AlertTriangle className="text-destructive" />
+        {showLog ? 'Hide send errors' : `Send errors (${log.length})`}
+      </Button>
+    </div>
+  );
+};
+
+export default DeliveryToasts;
@@ -0,0 +1,249 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import type { RecorderState, ReplayCommand, ReplayState, SessionInfo } from '@/hooks/useOSC';
+
+interface SessionRecorderProps {
+  /** Whether the panel may control the bridge */
+  isConnected: boolean;
+  recorderState: RecorderState | null;
+  replayState: ReplayState | null;
+  onListSessions: () => Promise<SessionInfo[]>;
+  onStartRecording: (name?: string) => Promise<RecorderState>;
+  onStopRecording: () => Promise<RecorderState>;
+  onReplay: (command: ReplayCommand) => Promise<ReplayState>;
+}
+
+const SPEEDS = [0.25, 0.5, 1, 1.5, 2, 4];
+
+const formatTime = (ms: number) => {
+  const totalSeconds = Math.max(0, ms) / 1000;
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = (totalSeconds % 60).toFixed(1).padStart(4, '0');
+  return `${minutes}:${seconds}`;
+};
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// The bridge only reports state changes; advance the clock locally in between
+const useNow = (active: boolean) => {
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    if (!active) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [active]);
+  return now;
+};
+
+const SessionRecorder: React.FC<SessionRecorderProps> = ({
+  isConnected,
+  recorderState,
+  replayState,
+  onListSessions,
+  onStartRecording,
+  onStopRecording,
+  onReplay,
+}) => {
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [sessionName, setSessionName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Seek slider position while dragging, so updates from the bridge don't fight the thumb
+  const [scrubPosition, setScrubPosition] = useState<number | null>(null);
+
+  const isRecording = Boolean(recorderState?.recording);
+  const isPlaying = replayState?.state === 'playing';
+  const now = useNow(isRecording || isPlaying);
+
+  const run = useCallback(async <T,>(action: () => Promise<T>) => {
+    setError(null);
+    try {
+      return await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      return undefined;
+    }
+  }, []);
+
+  const refreshSessions = useCallback(async () => {
+    const list = await run(onListSessions);
+    if (list) setSessions(list);
+  }, [run, onListSessions]);
+
+  useEffect(() => {
+    if (isConnected) refreshSessions();
+  }, [isConnected, refreshSessions]);
+
+  // A finished recording shows up in the list
+  useEffect(() => {
+    if (isConnected && recorderState && !recorderState.recording) refreshSessions();
+  }, [isConnected, recorderState, refreshSessions]);
+
+  const handleRecord = async () => {
+    if (isRecording) {
+      await run(onStopRecording);
+    } else {
+      await run(() => onStartRecording(sessionName.trim() || undefined));
+      setSessionName('');
+    }
+  };
+
+  const position = replayState
+    ? scrubPosition ?? (isPlaying
+      ? Math.min(replayState.position + (now - replayState.updatedAt) * replayState.speed, replayState.duration)
+      : replayState.position)
+    : 0;
+
+  const commitSeek = () => {
+    if (scrubPosition === null) return;
+    run(() => onReplay({ action: 'seek', position: scrubPosition }));
+    setScrubPosition(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {/* Recorder */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold mb-4 text-foreground">Record</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Captures every OSC message the panels send, with timing, to a session file on the bridge.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          {!isRecording && (
+            <Input
+              className="w-64"
+              placeholder="Session name (optional)"
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              disabled={!isConnected}
+            />
+          )}
+          <Button
+            variant={isRecording ? 'destructive' : 'default'}
+            onClick={handleRecord}
+            disabled={!isConnected}
+          >
+            {isRecording ? '⏹ Stop recording' : '⏺ Record'}
+          </Button>
+          {isRecording && recorderState && (
+            <span className="text-sm text-foreground">
+              <span className="text-destructive">●</span> {recorderState.name} - {formatTime(recorderState.startedAt ? now - recorderState.startedAt : 0)}
+            </span>
+          )}
+          {!isRecording && recorderState?.error && (
+            <span className="text-sm text-destructive">
+              Recording {recorderState.name} stopped: {recorderState.error}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Playback */}
+      <div className="bg-card rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-foreground">Play back</h2>
+          <Button variant="ghost" size="sm" onClick={refreshSessions} disabled={!isConnected}>
+            Refresh
+          </Button>
+        </div>
+
+        {sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground mb-4">No recorded sessions yet.</p>
+        ) : (
+          <ul className="mb-6 divide-y divide-border border border-border rounded-lg">
+            {sessions.map((session) => {
+              const isLoaded = replayState?.session === session.name;
+              return (
+                <li key={session.name} className="flex items-center justify-between px-4 py-2">
+                  <span className="text-sm">
+                    <span className="font-mono text-foreground">{session.name}</span>
+                    <span className="text-muted-foreground ml-2">
+                      {new Date(session.modifiedAt).toLocaleString()} · {formatSize(session.size)}
+                    </span>
+                  </span>
+                  <Button
+                    variant={isLoaded ? 'secondary' : 'outline'}
+                    size="sm"
+                    disabled={!isConnected || isLoaded}
+                    onClick={() => run(() => onReplay({ action: 'load', session: session.name }))}
+                  >
+                    {isLoaded ? 'Loaded' : 'Load'}
+                  </Button>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {replayState?.session && (
+          <div className="space-y-3">
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-mono text-foreground">{replayState.session}</span>
+              <span className="text-xs text-muted-foreground">{replayState.messages} packets</span>
+            </div>
+
+            <div className="flex items-center space-x-3">
+              <span className="text-sm tabular-nums w-16">{formatTime(position)}</span>
+              <input
+                type="range"
+                className="flex-1"
+                min={0}
+                max={replayState.duration}
+                step={10}
+                value={position}
+                disabled={!isConnected}
+                onChange={(e) => setScrubPosition(Number(e.target.value))}
+                onPointerUp={commitSeek}
+                onKeyUp={commitSeek}
+                aria-label="Playback position"
+              />
+              <span className="text-sm tabular-nums w-16 text-right">{formatTime(replayState.duration)}</span>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+              {isPlaying ? (
+                <Button onClick={() => run(() => onReplay({ action: 'pause' }))} disabled={!isConnected}>⏸ Pause</Button>
+              ) : (
+                <Button onClick={() => run(() => onReplay({ action: 'play' }))} disabled={!isConnected}>▶ Play</Button>
+              )}
+              <Button
+                variant="outline"
+                onClick={() => run(() => onReplay({ action: 'stop' }))}
+                disabled={!isConnected || replayState.state === 'stopped'}
+              >
+                ⏹ Stop
+              </Button>
+              <label className="flex items-center space-x-1 text-sm ml-2">
+                <input
+                  type="checkbox"
+                  checked={replayState.loop}
+                  disabled={!isConnected}
+                  onChange={(e) => run(() => onReplay({ action: 'loop', loop: e.target.checked }))}
+                />
+                <span>Loop</span>
+              </label>
+              <label className="flex items-center space-x-1 text-sm ml-2">
+                <span className="text-muted-foreground">Speed</span>
+                <select
+                  className="h-9 rounded-md border border-input bg-transparent dark:bg-input/30 px-2 text-sm"
+                  value={replayState.speed}
+                  disabled={!isConnected}
+                  onChange={(e) => run(() => onReplay({ action: 'speed', speed: Number(e.target.value) }))}
+                >
+                  {SPEEDS.map((speed) => <option key={speed} value={speed}>{speed}×</option>)}
+                </select>
+              </label>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionRecorder;
@@ -0,0 +1,40 @@
+'use client';
+
+import React from 'react';
+
+type SparklineProps = {
+  /** Values to plot, oldest first */
+  values: number[];
+  /** Width in pixels (default: 60) */
+  width?: number;
+  /** Height in pixels (default: 16) */
+  height?: number;
+  /** Custom class name, the line uses currentColor */
+  className?: string;
+};
+
+const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width = 60,
+  height = 16,
+  className = '',
+}) => {
+  if (values.length < 2) return null;
+
+  const max = Math.max(...values);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+  const step = width / (values.length - 1);
+
+  const points = values
+    .map((value, i) => `${(i * step).toFixed(1)},${(height - 1 - ((value - min) / range) * (height - 2)).toFixed(1)}`)
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} viewBox={`0 0 ${width} ${height}`} className={className} aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth={1.5} strokeLinejoin="round" />
+    </svg>
+  );
+};
+
+export default Sparkline;
@@ -0,0 +1,55 @@
+// src/hooks/useBridgeTarget.ts
+import { useState, useEffect, useCallback } from 'react';
+import { defaultBridgeTarget, type BridgeTarget } from '@/lib/bridgeDiscovery';
+
+const TARGET_STORAGE_KEY = 'osc-bridge-target';
+
+const loadStoredTarget = (): BridgeTarget | null => {
+  try {
+    const stored = window.localStorage.getItem(TARGET_STORAGE_KEY);
+    if (!stored) return null;
+    const target = JSON.parse(stored) as BridgeTarget;
+    return typeof target.host === 'string' && Number.isInteger(target.port)
+      ? { ...target, secure: Boolean(target.secure), path: typeof target.path === 'string' ? target.path : '' }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+const storeTarget = (target: BridgeTarget | null) => {
+  try {
+    if (target) {
+      window.localStorage.setItem(TARGET_STORAGE_KEY, JSON.stringify(target));
+    } else {
+      window.localStorage.removeItem(TARGET_STORAGE_KEY);
+    }
+  } catch {
+    // Private mode - the choice just isn't remembered
+  }
+};
+
+/**
+ * The bridge picked in the panel, remembered in localStorage, falling back to
+ * the build-time NEXT_PUBLIC_OSC_BRIDGE_* settings. `target` stays null until
+ * storage has been read so the panel doesn't connect to the default first.
+ */
+export const useBridgeTarget = () => {
+  const [target, setTargetState] = useState<BridgeTarget | null>(null);
+  const [isCustom, setIsCustom] = useState(false);
+
+  useEffect(() => {
+    const stored = loadStoredTarget();
+    setTargetState(stored ?? defaultBridgeTarget());
+    setIsCustom(stored !== null);
+  }, []);
+
+  // Pass null to go back to the build-time default
+  const setTarget = useCallback((next: BridgeTarget | null) => {
+    storeTarget(next);
+    setTargetState(next ?? defaultBridgeTarget());
+    setIsCustom(next !== null);
+  }, []);
+
+  return { target, isCustom, setTarget };
+};
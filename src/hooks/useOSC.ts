@@ -1,98 +1,751 @@
 // src/hooks/useOSC.ts
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { matchOSCAddress } from '@/lib/oscAddress';
+import { createSendScheduler } from '@/lib/sendScheduler';
+import { getBackoffDelay } from '@/lib/backoff';
+import { bridgeHttpUrl, bridgeSocketUrl, defaultBridgeTarget } from '@/lib/bridgeDiscovery';
+import { describeVersionMismatch, helloMessage, negotiateVersion, parseServerMessage } from '@/lib/protocol';
+import type {
+  BridgeConfig,
+  BridgeDestination,
+  BridgeStats,
+  BridgeStatus,
+  ClientMessage,
+  DeliveryFailure,
+  DestinationTestResult,
+  OSCArg,
+  OSCMessage,
+  OSCRole,
+  RecorderState,
+  ReplayCommand,
+  ReplayState,
+  ServerMessage,
+  SessionInfo,
+  TDStatus
+} from '@/lib/protocol';
 
-interface OSCMessage {
+export type {
+  OSCTypedArg,
+  OSCArg,
+  OSCMessage,
+  OSCRole,
+  BridgeDestination,
+  BridgeRoute,
+  BridgeRouteConfig,
+  BridgeLogLevel,
+  BridgeConfig,
+  BridgeStatus,
+  BridgeAddressStats,
+  BridgeStats,
+  DestinationTestResult,
+  TDStatus,
+  RecorderState,
+  ReplayState,
+  ReplayCommand,
+  SessionInfo
+} from '@/lib/protocol';
+
+interface OSCIncomingMessage {
+  /** TouchDesigner feedback, a change made on another panel or the bridge's join snapshot */
+  source: 'touchdesigner' | 'peer' | 'snapshot';
   address: string;
-  args: any[];
+  args: unknown[];
 }
 
-interface OSCStatus {
-  type: 'status' | 'error';
+export type OSCMessageHandler = (args: unknown[], address: string) => void;
+
+interface OSCSubscription {
+  pattern: string;
+  handler: OSCMessageHandler;
+}
+
+/** Round-trip times measured by the heartbeat */
+export interface OSCLatency {
+  /** Latest round-trip time in ms */
+  rtt: number | null;
+  /** Mean difference between consecutive round-trip times in ms */
+  jitter: number | null;
+  /** Recent round-trip times, oldest first */
+  history: number[];
+}
+
+const LATENCY_HISTORY_SIZE = 30;
+
+/** What became of a send */
+export type SendOutcome =
+  /** The bridge sent it to every destination, possibly with values clamped into range */
+  | { status: 'delivered'; action: 'ok' | 'clamped' | 'passed' }
+  /** The bridge rejected it or a destination failed, e.g. with ENETUNREACH */
+  | { status: 'failed'; code: string; message: string }
+  /** Written to the socket without asking for confirmation: a streaming send(), or ackTimeout 0 */
+  | { status: 'sent' }
+  /** Not connected; kept for replay on reconnect */
+  | { status: 'queued' }
+  /** Replaced by a newer value for the address before it went out */
+  | { status: 'superseded' }
+  /** No answer before ackTimeout, or the connection closed first */
+  | { status: 'unconfirmed' };
+
+/** Latest failed send for an address, shown on its control */
+export interface DeliveryError {
+  address: string;
+  code: string;
   message: string;
-  touchdesignerHost?: string;
-  touchdesignerPort?: number;
+  /** Failures with this code in a row */
+  count: number;
+  at: number;
+}
+
+/** Send error log entry; a repeat of the same address and code updates the existing entry */
+export interface DeliveryLogEntry extends DeliveryError {
+  id: number;
+}
+
+const DELIVERY_LOG_SIZE = 50;
+
+interface PendingRequest {
+  resolve: (reply: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** A message that takes a requestId, without it - request() numbers them */
+type BridgeRequest<T = ClientMessage> = T extends unknown ? ('requestId' extends keyof T ? Omit<T, 'requestId'> : never) : never;
+
+type OSCSend = Extract<BridgeRequest, { type: 'osc' | 'bundle' }>;
+type DeliveryReply = Extract<ServerMessage, { type: 'ack' | 'nack' }>;
+
+/** A coalesced send waiting in the scheduler, with the resolver of its promise */
+interface ScheduledSend {
+  args: OSCArg[];
+  /** Ask the bridge for an ack - final values only, not every frame of a drag */
+  confirm: boolean;
+  settle: (outcome: SendOutcome) => void;
 }
 
+export const canControl = (role: OSCRole | null) => role === 'operator' || role === 'admin';
+
 interface UseOSCOptions {
   bridgeHost?: string;
   bridgePort?: number;
+  /** Path the bridge is mounted on ('/osc' when embedded in the panel's server); defaults to '' when bridgeHost is given */
+  bridgePath?: string;
+  /** Connect with wss:// (defaults to NEXT_PUBLIC_OSC_BRIDGE_SECURE, else to whether the page is served over HTTPS) */
+  secure?: boolean;
   autoConnect?: boolean;
+  /** Heartbeat ping interval in ms (0 = disabled) */
+  heartbeatInterval?: number;
+  /** Drop the connection after this many unanswered pings */
+  heartbeatMaxMissed?: number;
+  /** Delay before the first reconnect attempt in ms; later attempts back off exponentially */
   reconnectDelay?: number;
+  /** Upper bound for the reconnect delay in ms */
+  maxReconnectDelay?: number;
+  /** Backoff growth factor per attempt */
+  reconnectMultiplier?: number;
+  /** Random spread applied to each delay as a fraction (0.3 = ±30%) */
+  reconnectJitter?: number;
+  /** Give up after this many attempts (Infinity = retry forever) */
+  maxReconnectAttempts?: number;
+  /** Maximum sends per second for each address; faster values are coalesced, latest wins (0 = unlimited) */
+  sendRate?: number;
+  /** Per-address send rate overrides in Hz, e.g. { '/prompt': 10 } */
+  sendRateOverrides?: Record<string, number>;
+  /** Full panel state to push after a reconnect or when TouchDesigner restarts */
+  getResyncMessages?: () => OSCMessage[];
+  /** PIN to log in with when the bridge requires one; otherwise the last accepted PIN is reused */
+  pin?: string;
+  /** How long in ms to wait for the bridge to confirm sendNow, sendBundle and replays (0 = don't ask for confirmation) */
+  ackTimeout?: number;
 }
 
+const PIN_STORAGE_KEY = 'osc-bridge-pin';
+
+// Session storage, so the PIN is gone when the tab closes
+const loadStoredPin = () => {
+  try {
+    // Older panels kept the PIN in localStorage
+    window.localStorage.removeItem(PIN_STORAGE_KEY);
+    return window.sessionStorage.getItem(PIN_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+const storePin = (pin: string | null) => {
+  try {
+    if (pin) {
+      window.sessionStorage.setItem(PIN_STORAGE_KEY, pin);
+    } else {
+      window.sessionStorage.removeItem(PIN_STORAGE_KEY);
+    }
+  } catch {
+    // Private mode - the PIN just isn't remembered
+  }
+};
+
+// Everything sent to the bridge goes through here, typed against the protocol
+const sendMessage = (ws: WebSocket, message: ClientMessage) => ws.send(JSON.stringify(message));
+
+const formatArg = (arg: OSCArg) =>
+  typeof arg === 'object' ? `${arg.type}:${arg.value === undefined ? '' : JSON.stringify(arg.value)}` : String(arg);
+
 export const useOSC = (options: UseOSCOptions = {}) => {
+  // NEXT_PUBLIC_OSC_BRIDGE_*, or the bridge embedded in the server that served the page
+  const fallback = defaultBridgeTarget();
   const {
-    bridgeHost = process.env.NEXT_PUBLIC_OSC_BRIDGE_HOST || 'localhost',
-    bridgePort = parseInt(process.env.NEXT_PUBLIC_OSC_BRIDGE_PORT || '8080'),
+    bridgeHost = fallback.host,
+    bridgePort = fallback.port,
+    bridgePath = options.bridgeHost === undefined ? fallback.path : '',
+    secure = fallback.secure,
     autoConnect = true,
-    reconnectDelay = 3000
+    heartbeatInterval = 5000,
+    heartbeatMaxMissed = 3,
+    reconnectDelay = 1000,
+    maxReconnectDelay = 30000,
+    reconnectMultiplier = 2,
+    reconnectJitter = 0.3,
+    maxReconnectAttempts = Infinity,
+    sendRate = 60,
+    sendRateOverrides,
+    getResyncMessages,
+    pin,
+    ackTimeout = 5000
   } = options;
 
   const [isConnected, setIsConnected] = useState(false);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
-  const [bridgeInfo, setBridgeInfo] = useState<OSCStatus | null>(null);
+  const [bridgeInfo, setBridgeInfo] = useState<BridgeStatus | null>(null);
+  // Negotiated with the bridge's hello; null until then and for bridges from before the protocol
+  const [protocolVersion, setProtocolVersion] = useState<number | null>(null);
+  const [tdStatus, setTDStatus] = useState<TDStatus | null>(null);
+  const [recorderState, setRecorderState] = useState<RecorderState | null>(null);
+  const [replayState, setReplayState] = useState<ReplayState | null>(null);
+  const [role, setRole] = useState<OSCRole | null>(null);
+  const [authRequired, setAuthRequired] = useState(false);
+  const [authError, setAuthError] = useState<string | null>(null);
+  // Set when a wss:// socket fails before opening - usually an untrusted certificate
+  const [certificateUrl, setCertificateUrl] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isBuffering, setIsBuffering] = useState(false);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [nextRetryAt, setNextRetryAt] = useState<number | null>(null);
+  const [latency, setLatency] = useState<OSCLatency>({ rtt: null, jitter: null, history: [] });
+  const [failedAddresses, setFailedAddresses] = useState<Record<string, DeliveryError>>({});
+  const [deliveryLog, setDeliveryLog] = useState<DeliveryLogEntry[]>([]);
 
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const reconnectAttemptsRef = useRef(0);
-  const maxReconnectAttempts = 5;
+  // Set after an unexpected drop, cleared once connected or on manual disconnect
+  const shouldReconnectRef = useRef(false);
+  const subscriptionsRef = useRef<Set<OSCSubscription>>(new Set());
+  const hasConnectedRef = useRef(false);
+  const hasHydratedRef = useRef(false);
+  const roleRef = useRef<OSCRole | null>(null);
+  // PIN of the last successful login, reused after reconnects
+  const pinRef = useRef<string | null>(pin ?? null);
+  // PIN sent with a login that hasn't been answered yet
+  const pendingPinRef = useRef<string | null>(null);
+  const pendingRequestsRef = useRef<Map<number, PendingRequest>>(new Map());
+  const requestIdRef = useRef(0);
+  // Addresses this panel has sent; a late snapshot must not overwrite them
+  const sentAddressesRef = useRef<Set<string>>(new Set());
+  const heartbeatTimerRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  const missedBeatsRef = useRef(0);
+  const pingIdRef = useRef(0);
+  // Why the last bridge couldn't be used; no reconnects while set
+  const versionErrorRef = useRef<string | null>(null);
+  const getResyncMessagesRef = useRef(getResyncMessages);
+  const ackTimeoutRef = useRef(ackTimeout);
+  const deliveryLogIdRef = useRef(0);
+
+  useEffect(() => {
+    getResyncMessagesRef.current = getResyncMessages;
+  }, [getResyncMessages]);
+
+  useEffect(() => {
+    ackTimeoutRef.current = ackTimeout;
+  }, [ackTimeout]);
+
+  // Fan an incoming OSC message out to every matching subscriber
+  const dispatch = useCallback((message: OSCIncomingMessage) => {
+    subscriptionsRef.current.forEach(({ pattern, handler }) => {
+      if (!matchOSCAddress(pattern, message.address)) return;
+      try {
+        handler(message.args, message.address);
+      } catch (err) {
+        console.error(`❌ OSC handler for ${pattern} failed:`, err);
+      }
+    });
+  }, []);
+
+  const rejectPendingRequests = useCallback((reason: string) => {
+    pendingRequestsRef.current.forEach(({ reject, timer }) => {
+      clearTimeout(timer);
+      reject(new Error(reason));
+    });
+    pendingRequestsRef.current.clear();
+  }, []);
+
+  // Bring a fresh panel up to the bridge's current values instead of the store defaults.
+  // Only on the first connection - after a reconnect this panel pushes its own state instead.
+  const applySnapshot = useCallback((values: { address: string; args: unknown[] }[]) => {
+    if (hasHydratedRef.current) return;
+    hasHydratedRef.current = true;
+
+    values.forEach(({ address, args }) => {
+      if (sentAddressesRef.current.has(address)) return;
+      dispatch({ source: 'snapshot', address, args });
+    });
+  }, [dispatch]);
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatTimerRef.current) {
+      clearInterval(heartbeatTimerRef.current);
+      heartbeatTimerRef.current = undefined;
+    }
+    missedBeatsRef.current = 0;
+  }, []);
+
+  const recordRoundTrip = useCallback((rtt: number) => {
+    setLatency((previous) => {
+      const history = [...previous.history, rtt].slice(-LATENCY_HISTORY_SIZE);
+      const deltas = history.slice(1).map((value, i) => Math.abs(value - history[i]));
+      const jitter = deltas.length > 0 ? deltas.reduce((sum, delta) => sum + delta, 0) / deltas.length : null;
+      return { rtt, jitter, history };
+    });
+  }, []);
+
+  // Last value per address while the socket is down, replayed once it reopens
+  const offlineQueueRef = useRef<Map<string, OSCArg[]>>(new Map());
+
+  const queueOffline = useCallback((address: string, args: OSCArg[]) => {
+    sentAddressesRef.current.add(address);
+    offlineQueueRef.current.set(address, args);
+    setPendingCount(offlineQueueRef.current.size);
+  }, []);
+
+  const discardPending = useCallback(() => {
+    offlineQueueRef.current.clear();
+    setPendingCount(0);
+  }, []);
+
+  // Send a control message and wait for the reply carrying the same requestId
+  const request = useCallback(<T,>(message: BridgeRequest, timeout = 5000) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error('Not connected to the OSC bridge'));
+    }
+
+    const requestId = ++requestIdRef.current;
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pendingRequestsRef.current.delete(requestId);
+        reject(new Error('The OSC bridge did not answer in time'));
+      }, timeout);
+      pendingRequestsRef.current.set(requestId, { resolve: resolve as (reply: unknown) => void, reject, timer });
+      sendMessage(ws, { ...message, requestId } as ClientMessage);
+    });
+  }, []);
+
+  // Highlight the addresses whose last send failed, clear the ones that got through
+  // and log the failures. Successful sends to healthy addresses change nothing.
+  const recordDelivery = useCallback((addresses: string[], failures: Pick<DeliveryFailure, 'address' | 'code' | 'message'>[]) => {
+    const at = Date.now();
+    setFailedAddresses((previous) => {
+      if (failures.length === 0 && !addresses.some((address) => address in previous)) return previous;
+      const next = { ...previous };
+      addresses.forEach((address) => {
+        delete next[address];
+      });
+      failures.forEach(({ address, code, message }) => {
+        const count = previous[address]?.code === code ? previous[address].count + 1 : 1;
+        next[address] = { address, code, message, count, at };
+      });
+      return next;
+    });
+
+    if (failures.length === 0) return;
+    const entries = failures.map((failure) => ({ ...failure, id: ++deliveryLogIdRef.current }));
+    setDeliveryLog((previous) => {
+      let log = previous;
+      entries.forEach(({ id, address, code, message }) => {
+        const existing = log.find((entry) => entry.address === address && entry.code === code);
+        const entry = existing
+          ? { ...existing, message, at, count: existing.count + 1 }
+          : { id, address, code, message, at, count: 1 };
+        log = [entry, ...log.filter((other) => other !== existing)];
+      });
+      return log.slice(0, DELIVERY_LOG_SIZE);
+    });
+  }, []);
+
+  const clearDeliveryLog = useCallback(() => {
+    setDeliveryLog([]);
+    setFailedAddresses({});
+  }, []);
+
+  // Write an osc or bundle message and, when confirming with acks on, wait for the bridge's verdict
+  const deliver = useCallback((ws: WebSocket, message: OSCSend, addresses: string[], confirm = true): Promise<SendOutcome> => {
+    const timeout = ackTimeoutRef.current;
+    if (!confirm || timeout <= 0) {
+      sendMessage(ws, message);
+      return Promise.resolve({ status: 'sent' });
+    }
+
+    return request<DeliveryReply>(message, timeout).then((reply): SendOutcome => {
+      if (reply.type === 'ack') {
+        recordDelivery(addresses, []);
+        return { status: 'delivered', action: reply.action };
+      }
+      console.warn(`⚠️  Not delivered (${reply.code}): ${reply.message}`);
+      recordDelivery(addresses, reply.failures);
+      return { status: 'failed', code: reply.code, message: reply.message };
+    }, (err: Error & { code?: string }): SendOutcome => {
+      // Errors from the bridge carry a code; timeouts and closed connections don't
+      const { code } = err;
+      if (!code) return { status: 'unconfirmed' };
+      console.warn(`⚠️  Not delivered (${code}): ${err.message}`);
+      recordDelivery(addresses, addresses.map((address) => ({ address, code, message: err.message })));
+      return { status: 'failed', code, message: err.message };
+    });
+  }, [request, recordDelivery]);
+
+  // Send the given state plus the offline queue as one bundle so TD catches up
+  // in a single frame. Queued values are newer than the stores, so they win.
+  const replay = useCallback((state: OSCMessage[]) => {
+    const ws = wsRef.current;
+    if (!ws || ws.readyState !== WebSocket.OPEN) return false;
+
+    const latest = new Map<string, OSCArg[]>();
+    state.forEach(({ address, args }) => latest.set(address, args));
+    offlineQueueRef.current.forEach((args, address) => latest.set(address, args));
+    const queued = offlineQueueRef.current.size;
+    offlineQueueRef.current.clear();
+    setPendingCount(0);
+
+    if (latest.size === 0) return true;
+
+    try {
+      const packets: OSCMessage[] = Array.from(latest, ([address, args]) => ({ address, args }));
+      deliver(ws, { type: 'bundle', packets }, packets.map(({ address }) => address));
+      console.log(`📤 Replayed ${packets.length} OSC message(s) (${queued} queued)`);
+      return true;
+    } catch (err) {
+      console.error('❌ Failed to replay OSC state:', err);
+      return false;
+    }
+  }, [deliver]);
+
+  // Push every parameter the panel knows about back to TouchDesigner
+  const resync = useCallback(() => {
+    if (!canControl(roleRef.current)) return false;
+    const state = getResyncMessagesRef.current?.() ?? [];
+    console.log(`🔁 Resyncing ${state.length} parameter(s) to TouchDesigner`);
+    return replay(state);
+  }, [replay]);
+
+  // Write a single OSC message to the socket
+  const transmit = useCallback((address: string, args: OSCArg[], confirm: boolean): Promise<SendOutcome> => {
+    // Use refs to avoid dependency on isConnected state
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      console.warn(`⚠️  Not connected, queued ${address} for replay`);
+      queueOffline(address, args);
+      return Promise.resolve({ status: 'queued' });
+    }
+
+    try {
+      sentAddressesRef.current.add(address);
+      const outcome = deliver(wsRef.current, { type: 'osc', address, args }, [address], confirm);
+      console.log(`📤 Sent OSC: ${address} ${args.map(formatArg).join(' ')}`);
+      return outcome;
+    } catch (err) {
+      console.error('❌ Failed to send OSC message:', err);
+      return Promise.resolve({ status: 'failed', code: 'send_failed', message: String(err) });
+    }
+  }, [queueOffline, deliver]);
+
+  // Per-address throttle so rAF-paced drags don't flood the bridge.
+  // Created once; transmit is stable, so the first render's one stays valid.
+  const [scheduler] = useState(() => createSendScheduler<ScheduledSend>({
+    rate: sendRate,
+    overrides: sendRateOverrides,
+    transmit: (address, { args, confirm, settle }) => { transmit(address, args, confirm).then(settle); },
+    onDrop: (_address, { settle }) => settle({ status: 'superseded' })
+  }));
+
+  useEffect(() => {
+    scheduler.setOptions({ rate: sendRate, overrides: sendRateOverrides });
+  }, [scheduler, sendRate, sendRateOverrides]);
 
   const connect = useCallback(() => {
-    if (wsRef.current?.readyState === WebSocket.OPEN) {
+    if (wsRef.current?.readyState === WebSocket.OPEN || wsRef.current?.readyState === WebSocket.CONNECTING) {
       return;
     }
 
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = undefined;
+    }
+    setNextRetryAt(null);
+
     setConnectionStatus('connecting');
     setError(null);
+    versionErrorRef.current = null;
+    setProtocolVersion(null);
 
-    const url = `ws://${bridgeHost}:${bridgePort}`;
+    const url = bridgeSocketUrl({ host: bridgeHost, port: bridgePort, secure, path: bridgePath });
     console.log(`🔌 Connecting to OSC bridge at ${url}`);
 
     try {
-      wsRef.current = new WebSocket(url);
+      const ws = new WebSocket(url);
+      wsRef.current = ws;
+
+      // Push state once per socket, as soon as the bridge lets this panel send.
+      // The first connection only flushes the queue; a reconnect means the
+      // bridge or TD may have restarted, so push the full state again
+      let sessionStarted = false;
+      let opened = false;
+      // Set once the bridge's hello shows a version both sides speak
+      let greeted = false;
+      const applyRole = (nextRole: OSCRole | null) => {
+        roleRef.current = nextRole;
+        setRole(nextRole);
+        if (sessionStarted || !canControl(nextRole)) return;
+        sessionStarted = true;
+        if (hasConnectedRef.current) {
+          resync();
+        } else {
+          replay([]);
+        }
+        hasConnectedRef.current = true;
+      };
+
+      // Incompatible versions: say which side to update and stop retrying until the next connect()
+      const rejectVersion = (reason: string) => {
+        console.error(`❌ ${reason}`);
+        versionErrorRef.current = reason;
+        setError(reason);
+        ws.close(1000);
+      };
+
+      // A half-open socket (e.g. a phone that lost Wi-Fi) still reports OPEN, so
+      // ping the bridge and treat too many unanswered beats as a drop
+      const startHeartbeat = () => {
+        stopHeartbeat();
+        if (heartbeatInterval <= 0) return;
+
+        heartbeatTimerRef.current = setInterval(() => {
+          if (ws.readyState !== WebSocket.OPEN) return;
+
+          if (missedBeatsRef.current >= heartbeatMaxMissed) {
+            console.warn(`💔 No heartbeat reply for ${missedBeatsRef.current} beats, dropping connection`);
+            ws.onopen = null;
+            ws.onmessage = null;
+            ws.onclose = null;
+            ws.onerror = null;
+            ws.close();
+            if (wsRef.current === ws) wsRef.current = null;
+            setError('Bridge stopped responding');
+            handleClose(4000);
+            return;
+          }
+
+          missedBeatsRef.current++;
+          sendMessage(ws, { type: 'ping', id: ++pingIdRef.current, sentAt: Date.now() });
+        }, heartbeatInterval);
+      };
 
       wsRef.current.onopen = () => {
         console.log('✅ Connected to OSC bridge');
         setIsConnected(true);
         setConnectionStatus('connected');
+        setIsBuffering(false);
+        shouldReconnectRef.current = false;
         reconnectAttemptsRef.current = 0;
+        setReconnectAttempt(0);
         setError(null);
+        setCertificateUrl(null);
+        opened = true;
+        sendMessage(ws, helloMessage());
+        startHeartbeat();
       };
 
       wsRef.current.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          if (data.type === 'status') {
-            setBridgeInfo(data);
-            console.log('📋 Bridge info:', data.message);
+          const parsed = parseServerMessage(JSON.parse(event.data));
+          if (!parsed.ok) {
+            // A newer bridge may send messages this panel doesn't know; its hello says whether that matters
+            console.warn(`⚠️  Ignoring bridge message (${parsed.error}):`, event.data);
+            return;
+          }
+          const message = parsed.message;
+
+          // Replies to request() carry the requestId they answer
+          const requestId = 'requestId' in message ? message.requestId : undefined;
+          const pending = requestId === undefined ? undefined : pendingRequestsRef.current.get(requestId);
+          if (requestId !== undefined && pending) {
+            clearTimeout(pending.timer);
+            pendingRequestsRef.current.delete(requestId);
+            if (message.type === 'error') {
+              pending.reject(Object.assign(new Error(message.message), { code: message.code }));
+            } else {
+              pending.resolve(message);
+            }
+            return;
+          }
+
+          switch (message.type) {
+            case 'hello': {
+              const version = negotiateVersion(message);
+              if (version === null) {
+                rejectVersion(describeVersionMismatch(message, 'bridge', 'panel'));
+                return;
+              }
+              greeted = true;
+              setProtocolVersion(version);
+              break;
+            }
+            case 'pong':
+              missedBeatsRef.current = 0;
+              recordRoundTrip(Date.now() - message.sentAt);
+              break;
+            case 'status': {
+              if (!greeted) {
+                const reason = 'The bridge does not report a protocol version - it is older than this panel, update the bridge';
+                console.warn(`⚠️  ${reason}`);
+                setError(reason);
+              }
+              setBridgeInfo(message);
+              setTDStatus(message.tdStatus ?? null);
+              setRecorderState(message.recorder ?? null);
+              setReplayState(message.replay ? { ...message.replay, updatedAt: Date.now() } : null);
+              console.log('📋 Bridge info:', message.message);
+              // Bridges without authentication don't report a role and allow everything
+              setAuthRequired(Boolean(message.authRequired));
+              applyRole(message.role === undefined ? 'admin' : message.role);
+              const savedPin = pinRef.current ?? loadStoredPin();
+              if (message.authRequired && savedPin && message.role !== 'admin') {
+                pendingPinRef.current = savedPin;
+                sendMessage(ws, { type: 'login', pin: savedPin });
+              }
+              break;
+            }
+            case 'auth':
+              if (message.ok) {
+                console.log(`🔓 Logged in as ${message.role}`);
+                pinRef.current = pendingPinRef.current;
+                storePin(pinRef.current);
+                setAuthError(null);
+                applyRole(message.role);
+              } else {
+                console.warn(`🔒 Login rejected: ${message.message}`);
+                pinRef.current = null;
+                storePin(null);
+                setAuthError(message.message ?? 'Login failed');
+              }
+              pendingPinRef.current = null;
+              break;
+            case 'error':
+              if (message.code === 'unsupported_version') {
+                rejectVersion(message.message);
+                return;
+              }
+              console.warn(`⚠️  Bridge error (${message.code}): ${message.message}`, message.problems ?? '');
+              setError(message.message);
+              break;
+            case 'routes':
+              // An admin changed the bridge config
+              setBridgeInfo((previous) => previous && {
+                ...previous,
+                touchdesignerHost: message.touchdesignerHost,
+                touchdesignerPort: message.touchdesignerPort,
+                routes: message.routes
+              });
+              setTDStatus(message.tdStatus ?? null);
+              break;
+            case 'tdStatus':
+              setTDStatus(message);
+              break;
+            case 'recorderState':
+              setRecorderState(message);
+              break;
+            case 'replayState':
+              setReplayState({ ...message, updatedAt: Date.now() });
+              break;
+            case 'snapshot':
+              applySnapshot(message.values);
+              break;
+            case 'resync':
+              console.log(`🔁 Bridge requested a resync (${message.reason})`);
+              resync();
+              break;
+            case 'osc':
+              dispatch({ source: message.source, address: message.address, args: message.args });
+              break;
+            default:
+              // ack, stats, config, testResult and sessions only answer request()
+              break;
           }
         } catch (err) {
           console.warn('⚠️  Could not parse bridge message:', event.data);
         }
       };
 
-      wsRef.current.onclose = (event) => {
+      // Shared by onclose and the heartbeat watchdog, which can't wait for a dead socket to report closing
+      const handleClose = (code: number) => {
+        stopHeartbeat();
+        rejectPendingRequests('Connection to the OSC bridge closed');
         console.log('🔌 Disconnected from OSC bridge');
         setIsConnected(false);
         setConnectionStatus('disconnected');
+        // TD may still be fine, but without the bridge we can't tell
+        setTDStatus(null);
+        // A manual close, or a bridge with an incompatible protocol that retrying won't fix
+        const final = code === 1000 || versionErrorRef.current !== null;
+        // Keep accepting changes after an unexpected drop; they are replayed on reconnect
+        if (!final) setIsBuffering(true);
 
-        // Attempt reconnection if not a manual close
-        if (event.code !== 1000 && reconnectAttemptsRef.current < maxReconnectAttempts) {
-          reconnectAttemptsRef.current++;
-          console.log(`🔄 Reconnection attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts}`);
-          
-          reconnectTimeoutRef.current = setTimeout(() => {
-            connect();
-          }, reconnectDelay);
-        } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
+        // Attempt reconnection otherwise
+        if (final) return;
+        shouldReconnectRef.current = true;
+
+        if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
           setError('Max reconnection attempts reached');
+          return;
         }
+
+        const delay = getBackoffDelay(reconnectAttemptsRef.current, {
+          initialDelay: reconnectDelay,
+          maxDelay: maxReconnectDelay,
+          multiplier: reconnectMultiplier,
+          jitter: reconnectJitter
+        });
+        reconnectAttemptsRef.current++;
+        setReconnectAttempt(reconnectAttemptsRef.current);
+        setNextRetryAt(Date.now() + delay);
+        console.log(`🔄 Reconnection attempt ${reconnectAttemptsRef.current}${Number.isFinite(maxReconnectAttempts) ? `/${maxReconnectAttempts}` : ''} in ${(delay / 1000).toFixed(1)}s`);
+
+        reconnectTimeoutRef.current = setTimeout(() => {
+          reconnectTimeoutRef.current = undefined;
+          connect();
+        }, delay);
       };
 
+      wsRef.current.onclose = (event) => handleClose(event.code);
+
       wsRef.current.onerror = (error) => {
         console.error('❌ WebSocket error:', error);
-        setError('Failed to connect to OSC bridge');
+        // Browsers don't say why a wss:// handshake failed; a self-signed
+        // certificate that hasn't been accepted yet is by far the most common cause
+        if (secure && !opened) {
+          setError('Secure connection failed - the browser may not trust the bridge certificate');
+          setCertificateUrl(bridgeHttpUrl({ host: bridgeHost, port: bridgePort, secure, path: bridgePath }));
+        } else {
+          setError('Failed to connect to OSC bridge');
+        }
         setConnectionStatus('disconnected');
       };
 
@@ -101,40 +754,178 @@ export const useOSC = (options: UseOSCOptions = {}) => {
       setError('Failed to create WebSocket connection');
       setConnectionStatus('disconnected');
     }
-  }, [bridgeHost, bridgePort, reconnectDelay]);
+  }, [bridgeHost, bridgePort, bridgePath, secure, reconnectDelay, maxReconnectDelay, reconnectMultiplier, reconnectJitter, maxReconnectAttempts, heartbeatInterval, heartbeatMaxMissed, dispatch, applySnapshot, replay, resync, stopHeartbeat, recordRoundTrip, rejectPendingRequests]);
+
+  // Skip the remaining backoff and try again right away, starting a fresh backoff sequence
+  const retryNow = useCallback(() => {
+    if (!shouldReconnectRef.current) return;
+    reconnectAttemptsRef.current = 0;
+    setReconnectAttempt(0);
+    setError(null);
+    connect();
+  }, [connect]);
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = undefined;
     }
+    shouldReconnectRef.current = false;
+    stopHeartbeat();
+    rejectPendingRequests('Disconnected from the OSC bridge');
 
     if (wsRef.current) {
       wsRef.current.close(1000); // Normal closure
       wsRef.current = null;
     }
 
+    scheduler.clear();
     setIsConnected(false);
+    setTDStatus(null);
+    roleRef.current = null;
+    setRole(null);
+    setIsBuffering(false);
     setConnectionStatus('disconnected');
+    setNextRetryAt(null);
     reconnectAttemptsRef.current = 0;
-  }, []);
+    setReconnectAttempt(0);
+  }, [stopHeartbeat, rejectPendingRequests, scheduler]);
 
-  const send = useCallback((address: string, ...args: any[]) => {
-    // Use refs to avoid dependency on isConnected state
+  // Coalesced send: the latest value per address goes out at most sendRate times per second.
+  // Streaming values aren't acked; resolves once written ('sent') or replaced ('superseded').
+  const send = useCallback((address: string, ...args: OSCArg[]): Promise<SendOutcome> => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
-      console.warn('⚠️  Cannot send OSC message: not connected');
-      return false;
+      scheduler.cancel(address);
+      queueOffline(address, args);
+      return Promise.resolve({ status: 'queued' });
+    }
+
+    return new Promise((settle) => scheduler.schedule(address, { args, confirm: false, settle }));
+  }, [queueOffline, scheduler]); // Stable - neither ever changes
+
+  // Immediate send for final values (e.g. onChangeEnd); replaces any pending value for the address
+  // and restarts its interval, so a drag that follows doesn't go out in the same frame
+  const sendNow = useCallback((address: string, ...args: OSCArg[]): Promise<SendOutcome> => {
+    return new Promise((settle) => scheduler.sendNow(address, { args, confirm: true, settle }));
+  }, [scheduler]);
+
+  // Send several messages as one OSC bundle so TouchDesigner applies them in the same frame
+  const sendBundle = useCallback((messages: OSCMessage[], timetag?: number): Promise<SendOutcome> => {
+    if (messages.length === 0) {
+      return Promise.resolve({ status: 'sent' });
+    }
+
+    // The bundle carries the newest values - don't let stale coalesced ones follow it
+    messages.forEach((message) => scheduler.cancel(message.address));
+
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
+      console.warn('⚠️  Not connected, queued OSC bundle for replay');
+      messages.forEach((message) => queueOffline(message.address, message.args));
+      return Promise.resolve({ status: 'queued' });
     }
 
     try {
-      const message: OSCMessage = { address, args };
-      wsRef.current.send(JSON.stringify(message));
-      console.log(`📤 Sent OSC: ${address} ${args.join(' ')}`);
-      return true;
+      const addresses = messages.map((message) => message.address);
+      addresses.forEach((address) => sentAddressesRef.current.add(address));
+      const outcome = deliver(wsRef.current, { type: 'bundle', timeTag: timetag, packets: messages }, addresses);
+      console.log(`📤 Sent OSC bundle: ${addresses.join(', ')}`);
+      return outcome;
     } catch (err) {
-      console.error('❌ Failed to send OSC message:', err);
-      return false;
+      console.error('❌ Failed to send OSC bundle:', err);
+      return Promise.resolve({ status: 'failed', code: 'send_failed', message: String(err) });
     }
-  }, []); // No dependencies - completely stable
+  }, [queueOffline, deliver, scheduler]);
+
+  // Listen for OSC messages coming back from TouchDesigner.
+  // Returns an unsubscribe function; patterns support OSC wildcards.
+  const subscribe = useCallback((addressPattern: string, handler: OSCMessageHandler) => {
+    const subscription: OSCSubscription = { pattern: addressPattern, handler };
+    subscriptionsRef.current.add(subscription);
+    return () => {
+      subscriptionsRef.current.delete(subscription);
+    };
+  }, []);
+
+  // Admin only: read and change the bridge's routes and TouchDesigner settings
+  const getBridgeConfig = useCallback(async () => {
+    const reply = await request<{ config: BridgeConfig }>({ type: 'getConfig' });
+    return reply.config;
+  }, [request]);
+
+  const setBridgeConfig = useCallback(async (config: BridgeConfig) => {
+    const reply = await request<{ config: BridgeConfig }>({ type: 'setConfig', config });
+    return reply.config;
+  }, [request]);
+
+  // Check that a destination is reachable before saving it
+  const testDestination = useCallback((destination: BridgeDestination) =>
+    request<DestinationTestResult>({ type: 'testDestination', ...destination }, 10000), [request]);
+
+  // Operators: record what the panels send and play sessions back through the bridge
+  const listSessions = useCallback(async () => {
+    const reply = await request<{ sessions: SessionInfo[] }>({ type: 'listSessions' });
+    return reply.sessions;
+  }, [request]);
+
+  const startRecording = useCallback(async (name?: string) => {
+    const state = await request<RecorderState>({ type: 'record', action: 'start', name });
+    setRecorderState(state);
+    return state;
+  }, [request]);
+
+  const stopRecording = useCallback(async () => {
+    const state = await request<RecorderState>({ type: 'record', action: 'stop' });
+    setRecorderState(state);
+    return state;
+  }, [request]);
+
+  const controlReplay = useCallback(async (command: ReplayCommand) => {
+    const reply = await request<ReplayState>({ type: 'replay', ...command });
+    const state = { ...reply, updatedAt: Date.now() };
+    setReplayState(state);
+    return state;
+  }, [request]);
+
+  // Admin only: traffic and error counters, the same report as the bridge's GET /stats
+  const getBridgeStats = useCallback(async () => {
+    const reply = await request<{ stats: BridgeStats }>({ type: 'getStats' });
+    return reply.stats;
+  }, [request]);
+
+  // Log in with a PIN; the bridge answers with the granted role
+  const login = useCallback((loginPin: string) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return false;
+    pendingPinRef.current = loginPin;
+    setAuthError(null);
+    sendMessage(wsRef.current, { type: 'login', pin: loginPin });
+    return true;
+  }, []);
+
+  // Forget the PIN and reconnect with the bridge's anonymous role
+  const logout = useCallback(() => {
+    pinRef.current = null;
+    storePin(null);
+    disconnect();
+    connect();
+  }, [connect, disconnect]);
+
+  // Network back or tab/phone woken up: don't wait out the backoff
+  useEffect(() => {
+    const handleOnline = () => {
+      if (shouldReconnectRef.current) console.log('🌐 Network back online, reconnecting now');
+      retryNow();
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') retryNow();
+    };
+
+    window.addEventListener('online', handleOnline);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [retryNow]);
 
   // Auto-connect on mount
   useEffect(() => {
@@ -151,9 +942,41 @@ export const useOSC = (options: UseOSCOptions = {}) => {
     isConnected,
     connectionStatus,
     bridgeInfo,
+    protocolVersion,
+    tdStatus,
+    role,
+    authRequired,
+    authError,
+    certificateUrl,
     error,
+    pendingCount,
+    isBuffering,
+    reconnectAttempt,
+    nextRetryAt,
+    retryNow,
+    latency,
+    failedAddresses,
+    deliveryLog,
+    clearDeliveryLog,
+    login,
+    logout,
+    getBridgeConfig,
+    setBridgeConfig,
+    testDestination,
+    getBridgeStats,
+    recorderState,
+    replayState,
+    listSessions,
+    startRecording,
+    stopRecording,
+    controlReplay,
+    discardPending,
+    resync,
     connect,
     disconnect,
-    send
+    send,
+    sendNow,
+    sendBundle,
+    subscribe
   };
 };
\ No newline at end of file
@@ -0,0 +1,22 @@
+// src/hooks/useRemoteSync.ts
+import { useEffect } from 'react';
+import { oscBindings } from '@/store/oscBindings';
+import type { OSCMessageHandler } from '@/hooks/useOSC';
+
+type Subscribe = (addressPattern: string, handler: OSCMessageHandler) => () => void;
+
+/**
+ * Mirror OSC values reported by TouchDesigner or changed on other panels into the stores.
+ * Updates are tagged with lastChangeSource 'remote' so views don't echo them back.
+ */
+export const useRemoteSync = (subscribe: Subscribe) => {
+  useEffect(() => {
+    const unsubscribers = oscBindings.map((binding) =>
+      subscribe(binding.address, (args) => binding.apply(args))
+    );
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+    };
+  }, [subscribe]);
+};
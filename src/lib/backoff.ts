@@ -0,0 +1,24 @@
+// src/lib/backoff.ts
+
+export interface BackoffOptions {
+  /** Delay before the first retry in ms */
+  initialDelay: number;
+  /** Upper bound for a single delay in ms */
+  maxDelay: number;
+  /** Growth factor applied per attempt */
+  multiplier: number;
+  /** Random spread as a fraction of the delay (0.3 = ±30%) */
+  jitter: number;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): exponential growth capped at
+ * maxDelay, then spread by ±jitter so many panels don't hit a restarted bridge
+ * at the same moment.
+ */
+export const getBackoffDelay = (attempt: number, options: BackoffOptions): number => {
+  const { initialDelay, maxDelay, multiplier, jitter } = options;
+  const base = Math.min(maxDelay, initialDelay * Math.pow(multiplier, attempt));
+  const spread = base * jitter * (Math.random() * 2 - 1);
+  return Math.max(0, Math.round(base + spread));
+};
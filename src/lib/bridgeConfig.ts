@@ -0,0 +1,49 @@
+// src/lib/bridgeConfig.ts
+import type { BridgeConfig } from '@/hooks/useOSC';
+
+/** Field path (e.g. `routes.0.destinations.1.port`) → error message */
+export type BridgeConfigErrors = Record<string, string>;
+
+const isValidPort = (port: number) => Number.isInteger(port) && port > 0 && port < 65536;
+
+/**
+ * Check a bridge config before sending it. Mirrors the bridge's own validation
+ * so mistakes show up next to the field instead of as a rejected save.
+ */
+export const validateBridgeConfig = (config: BridgeConfig): BridgeConfigErrors => {
+  const errors: BridgeConfigErrors = {};
+  const { touchdesigner, routes } = config;
+
+  if (!touchdesigner.host.trim()) errors['touchdesigner.host'] = 'Host is required';
+  if (!isValidPort(touchdesigner.port)) errors['touchdesigner.port'] = 'Port must be 1-65535';
+  if (!(touchdesigner.probeInterval === 0 || touchdesigner.probeInterval >= 500)) {
+    errors['touchdesigner.probeInterval'] = 'Use 0 to disable or at least 500 ms';
+  }
+
+  if (!(Number.isInteger(config.logging.sampleInterval) && config.logging.sampleInterval >= 0)) {
+    errors['logging.sampleInterval'] = 'Use 0 to log every message or a number of ms';
+  }
+
+  if (routes.length === 0) errors.routes = 'At least one route is required';
+
+  const names = new Set<string>();
+  routes.forEach((route, r) => {
+    const name = route.name.trim();
+    if (!name) {
+      errors[`routes.${r}.name`] = 'Name is required';
+    } else if (names.has(name)) {
+      errors[`routes.${r}.name`] = 'Name is used twice';
+    }
+    names.add(name);
+
+    if (!route.match.startsWith('/')) errors[`routes.${r}.match`] = 'Must start with /';
+    if (route.destinations.length === 0) errors[`routes.${r}.destinations`] = 'At least one destination is required';
+
+    route.destinations.forEach((destination, d) => {
+      if (!destination.host.trim()) errors[`routes.${r}.destinations.${d}.host`] = 'Host is required';
+      if (!isValidPort(destination.port)) errors[`routes.${r}.destinations.${d}.port`] = 'Port must be 1-65535';
+    });
+  });
+
+  return errors;
+};
@@ -0,0 +1,111 @@
+// src/lib/bridgeDiscovery.ts
+
+/** Where the panel connects to */
+export interface BridgeTarget {
+  host: string;
+  port: number;
+  secure: boolean;
+  /** Where the bridge is mounted: '' for the standalone bridge, '/osc' when embedded in the panel's server */
+  path: string;
+}
+
+/** A bridge listed by a discovery endpoint */
+export interface DiscoveredBridge extends BridgeTarget {
+  name: string;
+  /** LAN addresses the bridge reported */
+  addresses: string[];
+}
+
+/** Entry as served by the bridge's GET /discover */
+interface DiscoveryEntry {
+  name: string;
+  host: string;
+  addresses: string[];
+  port: number;
+  secure: boolean;
+  /** Missing on bridges from before the embedded mode */
+  path?: string;
+  /** The bridge that answered, as opposed to one it found over mDNS */
+  self?: boolean;
+}
+
+const DISCOVERY_PATH = '/discover';
+
+/** Path of the bridge embedded in the panel's own server (server.ts) */
+export const EMBEDDED_BRIDGE_PATH = '/osc';
+
+// HTTPS pages may only open wss:// sockets, so follow the page unless told otherwise
+export const defaultSecure = () => {
+  const configured = process.env.NEXT_PUBLIC_OSC_BRIDGE_SECURE;
+  if (configured) return configured === 'true';
+  return typeof window !== 'undefined' && window.location.protocol === 'https:';
+};
+
+/**
+ * The bridge configured at build time. Without NEXT_PUBLIC_OSC_BRIDGE_HOST it is
+ * the one embedded in the server that served the panel, on the page's own origin.
+ */
+export const defaultBridgeTarget = (): BridgeTarget => {
+  const host = process.env.NEXT_PUBLIC_OSC_BRIDGE_HOST;
+  if (host) {
+    return { host, port: parseInt(process.env.NEXT_PUBLIC_OSC_BRIDGE_PORT || '8080'), secure: defaultSecure(), path: '' };
+  }
+  if (typeof window === 'undefined') {
+    return { host: 'localhost', port: 3000, secure: false, path: EMBEDDED_BRIDGE_PATH };
+  }
+  const { hostname, port, protocol } = window.location;
+  return {
+    host: hostname,
+    port: port ? parseInt(port) : protocol === 'https:' ? 443 : 80,
+    secure: protocol === 'https:',
+    path: EMBEDDED_BRIDGE_PATH,
+  };
+};
+
+export const sameBridgeTarget = (a: BridgeTarget, b: BridgeTarget) =>
+  a.host === b.host && a.port === b.port && a.secure === b.secure && a.path === b.path;
+
+/** ws:// or wss:// URL of the bridge's WebSocket */
+export const bridgeSocketUrl = ({ host, port, secure, path }: BridgeTarget) =>
+  `${secure ? 'wss' : 'ws'}://${host}:${port}${path}`;
+
+/** http:// or https:// URL of one of the bridge's HTTP endpoints, e.g. '/stats' */
+export const bridgeHttpUrl = ({ host, port, secure, path }: BridgeTarget, endpoint = '') =>
+  `${secure ? 'https' : 'http'}://${host}:${port}${path}${endpoint}`;
+
+const fetchBridges = async (candidate: BridgeTarget, timeout: number): Promise<DiscoveredBridge[]> => {
+  const url = bridgeHttpUrl(candidate, DISCOVERY_PATH);
+  const response = await fetch(url, { signal: AbortSignal.timeout(timeout), cache: 'no-store' });
+  if (!response.ok) throw new Error(`${url} answered ${response.status}`);
+  const { bridges } = await response.json() as { bridges: DiscoveryEntry[] };
+
+  return bridges.map((entry) => ({
+    name: entry.name,
+    // The answering bridge is known to be reachable under the host we asked
+    host: entry.self ? candidate.host : entry.addresses[0] ?? entry.host,
+    port: entry.port,
+    secure: entry.secure,
+    path: entry.path ?? '',
+    addresses: entry.addresses,
+  }));
+};
+
+/**
+ * Ask each candidate bridge for the bridges it knows about. Browsers can't
+ * browse mDNS themselves, so any reachable bridge stands in for it. Bridges
+ * are de-duplicated by name and port; unreachable candidates are skipped.
+ */
+export const discoverBridges = async (candidates: BridgeTarget[], timeout = 2000): Promise<DiscoveredBridge[]> => {
+  const results = await Promise.allSettled(candidates.map((candidate) => fetchBridges(candidate, timeout)));
+  const found = new Map<string, DiscoveredBridge>();
+
+  results.forEach((result) => {
+    if (result.status !== 'fulfilled') return;
+    result.value.forEach((bridge) => {
+      const key = `${bridge.name}:${bridge.port}${bridge.path}`;
+      if (!found.has(key)) found.set(key, bridge);
+    });
+  });
+
+  return [...found.values()];
+};
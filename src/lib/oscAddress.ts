@@ -0,0 +1,61 @@
+// src/lib/oscAddress.ts
+
+const patternCache = new Map<string, RegExp>();
+
+// Convert an OSC 1.0 address pattern (*, ?, [abc], [!a-z], {foo,bar}) to a RegExp.
+// The bridge compiles its route and parameter patterns with it too.
+export const compilePattern = (pattern: string): RegExp => {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+        continue;
+      }
+      let body = pattern.slice(i + 1, end);
+      const negate = body.startsWith('!');
+      if (negate) body = body.slice(1);
+      source += `[${negate ? '^' : ''}${body.replace(/[\\\]^]/g, '\\$&')}]`;
+      i = end;
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      const options = pattern.slice(i + 1, end).split(',').map(escapeRegExp);
+      source += `(?:${options.join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+/**
+ * Check whether an OSC address matches an address pattern.
+ * Plain addresses are compared exactly; wildcards follow the OSC 1.0 spec.
+ */
+export const matchOSCAddress = (pattern: string, address: string): boolean => {
+  if (pattern === address) return true;
+  if (!/[*?[{]/.test(pattern)) return false;
+
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    regex = compilePattern(pattern);
+    patternCache.set(pattern, regex);
+  }
+  return regex.test(address);
+};
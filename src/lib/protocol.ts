@@ -0,0 +1,426 @@
+// src/lib/protocol.ts
+//
+// The WebSocket protocol between the panel and the bridge. The bridge loads this
+// file too (it runs under tsx), so both ends check messages against the same
+// definitions. Each side opens with a hello carrying the versions it speaks;
+// bump PROTOCOL_VERSION for any change an older peer would misread.
+
+/**
+ * Protocol version this side speaks.
+ * v2: acks wait for the send result; failed sends are answered with a nack
+ */
+export const PROTOCOL_VERSION = 2;
+/** Oldest version this side still understands */
+export const MIN_PROTOCOL_VERSION = 1;
+
+/** Explicitly typed OSC argument; bare values are inferred by the bridge (number → f, string → s, boolean → i) */
+export type OSCTypedArg =
+  | { type: 'i' | 'h' | 'f' | 'd'; value: number }
+  | { type: 's' | 'S' | 'c'; value: string }
+  | { type: 'T' | 'F' | 'N' | 'I'; value?: undefined }
+  /** RGB bytes 0-255, alpha 0-1 (defaults to 1) */
+  | { type: 'r'; value: { r: number; g: number; b: number; a?: number } }
+  /** MIDI message: [port, status, data1, data2] */
+  | { type: 'm'; value: [number, number, number, number] }
+  /** Blob as a base64 string or byte array */
+  | { type: 'b'; value: string | number[] }
+  /** Time tag as a JS timestamp in milliseconds */
+  | { type: 't'; value: number };
+
+export type OSCArg = number | string | boolean | OSCTypedArg;
+
+export interface OSCMessage {
+  address: string;
+  args: OSCArg[];
+}
+
+/** Access level granted by the bridge: viewers only receive state, admins may also reconfigure it */
+export type OSCRole = 'viewer' | 'operator' | 'admin';
+
+export interface BridgeDestination {
+  host: string;
+  port: number;
+  transport: 'udp' | 'tcp';
+  /** TCP only: OSC 1.1 SLIP or OSC 1.0 length prefix */
+  framing?: 'slip' | 'length';
+}
+
+export interface BridgeRoute {
+  name: string;
+  /** Address prefix or OSC pattern */
+  match: string;
+  enabled: boolean;
+  destinations: BridgeDestination[];
+  stats: {
+    messages: number;
+    bytes: number;
+    errors: number;
+    dropped: number;
+    lastError: string | null;
+    lastSentAt: number | null;
+  };
+}
+
+/** Route as stored in the bridge config file */
+export type BridgeRouteConfig = Omit<BridgeRoute, 'stats'>;
+
+export type BridgeLogLevel = 'error' | 'warn' | 'info' | 'debug' | 'trace';
+
+/** Runtime-editable bridge settings (admin only) */
+export interface BridgeConfig {
+  /** Target of the TD health probe */
+  touchdesigner: { host: string; port: number; probeInterval: number };
+  routes: BridgeRouteConfig[];
+  logging: {
+    level: BridgeLogLevel;
+    format: 'pretty' | 'json';
+    /** Per-address log lines are limited to one per this many ms (0 = every message) */
+    sampleInterval: number;
+    /** Rotating log file, empty for console only. Read-only: setConfig can't change it or its limits */
+    file: string;
+    maxSize: number;
+    maxFiles: number;
+  };
+}
+
+export interface DestinationTestResult {
+  host: string;
+  port: number;
+  transport: 'udp' | 'tcp';
+  ok: boolean;
+  /** Error code such as ENETUNREACH or ECONNREFUSED */
+  error: string | null;
+}
+
+/** TouchDesigner liveness as seen by the bridge's health probe */
+export interface TDStatus {
+  state: 'unknown' | 'online' | 'offline' | 'unreachable';
+  host: string;
+  port: number;
+  /** Probe round-trip time in ms */
+  rtt: number | null;
+  /** Timestamp of the last echoed probe */
+  lastSeen: number | null;
+  /** UDP error code when unreachable */
+  error: string | null;
+}
+
+/** Session recorder on the bridge */
+export interface RecorderState {
+  recording: boolean;
+  /** Current or last recorded session */
+  name: string | null;
+  startedAt: number | null;
+  messages: number;
+  /** ms recorded so far, null when not recording */
+  duration: number | null;
+  /** Why the last recording stopped on its own, e.g. ENOSPC */
+  error?: string | null;
+}
+
+/** Session playback on the bridge; positions are ms into the session */
+export interface ReplayState {
+  session: string | null;
+  state: 'stopped' | 'playing' | 'paused';
+  position: number;
+  duration: number;
+  messages: number;
+  loop: boolean;
+  speed: number;
+  /** When this report was made; the panel stamps it with its own clock on arrival */
+  updatedAt: number;
+}
+
+/** A recorded session file */
+export interface SessionInfo {
+  name: string;
+  size: number;
+  modifiedAt: number;
+}
+
+export type ReplayCommand =
+  | { action: 'load'; session: string }
+  | { action: 'play' }
+  | { action: 'pause' }
+  | { action: 'stop' }
+  | { action: 'seek'; position: number }
+  | { action: 'loop'; loop: boolean }
+  | { action: 'speed'; speed: number };
+
+/** Per-address message rate as reported by the bridge's /stats */
+export interface BridgeAddressStats {
+  address: string;
+  total: number;
+  /** Average over the last 10 seconds */
+  perSecond: number;
+  lastAt: number | null;
+}
+
+/** The bridge's traffic and error counters (admin only) */
+export interface BridgeStats {
+  startedAt: number;
+  /** ms since the bridge started */
+  uptime: number;
+  udpReady: boolean;
+  messages: { total: number; perSecond: number };
+  addresses: BridgeAddressStats[];
+  /** Messages that never left the bridge: UDP socket not ready, no matching route, route disabled, failed validation */
+  dropped: { notReady: number; noRoute: number; disabled: number; invalid: number; total: number };
+  /** Packets sent with out-of-range values pulled into range */
+  clamped: number;
+  encodeFailures: number;
+  /** Send errors per transport and error code, e.g. { udp: { ENETUNREACH: 3 } } */
+  sendErrors: Record<'udp' | 'tcp', Record<string, number>>;
+  /** protocolVersion is null for panels that never sent a hello */
+  clients: { ip: string; role: OSCRole | null; connectedAt: number; lastHeartbeat: number | null; protocolVersion: number | null }[];
+  routes: BridgeRoute[];
+  tcp: { host: string; port: number; framing: 'slip' | 'length'; connected: boolean }[];
+  touchdesigner: TDStatus | null;
+}
+
+/** Why a message failed the bridge's parameter registry */
+export interface ValidationProblem {
+  address: string;
+  problem: 'invalid_address' | 'unknown_address' | 'arg_count' | 'arg_type' | 'out_of_range';
+  /** Index and name of the offending argument */
+  arg?: number;
+  name?: string;
+  value?: number;
+  min?: number;
+  max?: number;
+  /** Expected and actual argument count or type tag */
+  expected?: number | string;
+  received?: number | string;
+}
+
+/** What the bridge did with a message that went through validation */
+export type ValidationAction = 'ok' | 'clamped' | 'rejected' | 'passed';
+
+/** A message from an osc or bundle message that didn't reach one of its destinations */
+export interface DeliveryFailure {
+  address: string;
+  /**
+   * invalid_message, not_ready (bridge UDP socket down), no_route, route_disabled,
+   * encode_failed, or the send error code such as ENETUNREACH or EHOSTUNREACH
+   */
+  code: string;
+  message: string;
+  /** Route and destination (host:port) involved, once it got that far */
+  route: string | null;
+  destination: string | null;
+}
+
+/** Correlates a request with its reply; the panel numbers them per connection */
+export type RequestId = number;
+
+export interface HelloMessage {
+  type: 'hello';
+  version: number;
+  minVersion: number;
+}
+
+/** Panel → bridge */
+export type ClientMessage =
+  | HelloMessage
+  | { type: 'osc'; address: string; args: OSCArg[]; requestId?: RequestId }
+  /** timeTag is a JS timestamp (ms) at which TouchDesigner should apply the bundle; omitted = immediately */
+  | { type: 'bundle'; timeTag?: number; packets: OSCMessage[]; requestId?: RequestId }
+  | { type: 'ping'; id: number; sentAt: number }
+  | { type: 'login'; pin: string }
+  | { type: 'getConfig'; requestId?: RequestId }
+  | { type: 'setConfig'; config: BridgeConfig; requestId?: RequestId }
+  | ({ type: 'testDestination'; requestId?: RequestId } & BridgeDestination)
+  | { type: 'getStats'; requestId?: RequestId }
+  | { type: 'listSessions'; requestId?: RequestId }
+  | { type: 'record'; action: 'start' | 'stop'; name?: string; requestId?: RequestId }
+  | ({ type: 'replay'; requestId?: RequestId } & ReplayCommand);
+
+/** Welcome sent to every new connection, right after the hello */
+export interface BridgeStatus {
+  message: string;
+  touchdesignerHost: string;
+  touchdesignerPort: number;
+  routes: BridgeRoute[];
+  /** Null when the bridge's TD probe is disabled */
+  tdStatus?: TDStatus | null;
+  /** Whether the bridge has PINs configured */
+  authRequired?: boolean;
+  /** Role before logging in; null means a PIN is needed even to watch */
+  role?: OSCRole | null;
+  recorder?: RecorderState;
+  replay?: ReplayState;
+}
+
+/** Bridge → panel */
+export type ServerMessage =
+  | HelloMessage
+  | ({ type: 'status' } & BridgeStatus)
+  | { type: 'pong'; id: number; sentAt: number; serverTime: number }
+  | { type: 'auth'; ok: boolean; role: OSCRole | null; message?: string }
+  /** TouchDesigner feedback, or a change made on another panel or by session playback */
+  | { type: 'osc'; source: 'touchdesigner' | 'peer'; address: string; args: unknown[] }
+  /** Current parameter values, sent once the panel may watch */
+  | { type: 'snapshot'; values: { address: string; args: unknown[] }[] }
+  /** Every destination took the osc or bundle message with this requestId, possibly clamped */
+  | { type: 'ack'; requestId: RequestId; action: Exclude<ValidationAction, 'rejected'>; problems: ValidationProblem[] }
+  /** Some or all of it was rejected or failed to send; code is that of the first failure */
+  | {
+      type: 'nack';
+      requestId: RequestId;
+      code: string;
+      message: string;
+      failures: DeliveryFailure[];
+      action?: ValidationAction;
+      problems?: ValidationProblem[];
+    }
+  /**
+   * code is one of bad_request, unsupported_version, forbidden, invalid_message,
+   * value_clamped, invalid_config, save_failed, invalid_destination or session_error.
+   * Messages with a requestId get an ack or nack instead of the validation notices
+   */
+  | { type: 'error'; code: string; message: string; requestId?: RequestId; action?: ValidationAction; problems?: ValidationProblem[] }
+  | { type: 'stats'; requestId?: RequestId; stats: BridgeStats }
+  /** An admin changed the bridge config */
+  | { type: 'routes'; touchdesignerHost: string; touchdesignerPort: number; routes: BridgeRoute[]; tdStatus: TDStatus | null }
+  | ({ type: 'tdStatus' } & TDStatus)
+  | ({ type: 'recorderState'; requestId?: RequestId } & RecorderState)
+  | ({ type: 'replayState'; requestId?: RequestId } & ReplayState)
+  | { type: 'resync'; reason: string }
+  | { type: 'config'; requestId?: RequestId; config: BridgeConfig }
+  | ({ type: 'testResult'; requestId?: RequestId } & DestinationTestResult)
+  | { type: 'sessions'; requestId?: RequestId; sessions: SessionInfo[] };
+
+export type ParseResult<T> = { ok: true; message: T } | { ok: false; error: string };
+
+type Check = (value: unknown) => boolean;
+type Fields = Record<string, Check>;
+/** Field checks for every message type of a union, so a new type can't go unchecked */
+type Schema<T extends { type: string }> = { [K in T['type']]: Fields };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: Check = (value) => typeof value === 'string';
+const isNumber: Check = (value) => typeof value === 'number' && Number.isFinite(value);
+const isBoolean: Check = (value) => typeof value === 'boolean';
+const isVersion: Check = (value) => Number.isInteger(value) && (value as number) >= 0;
+const oneOf = (...values: unknown[]): Check => (value) => values.includes(value);
+const arrayOf = (check: Check): Check => (value) => Array.isArray(value) && value.every(check);
+/** Absent, or null where JSON serializers keep undefined fields as null */
+const optional = (check: Check): Check => (value) => value === undefined || value === null || check(value);
+const shape = (fields: Fields): Check => (value) => isRecord(value) && Object.keys(fields).every((key) => fields[key](value[key]));
+
+const isRole = oneOf('viewer', 'operator', 'admin');
+const isOSCArg: Check = (value) =>
+  isNumber(value) || isString(value) || isBoolean(value) || (isRecord(value) && isString(value.type));
+const isOSCMessage = shape({ address: isString, args: arrayOf(isOSCArg) });
+const isValue = shape({ address: isString, args: Array.isArray });
+const isProblem = shape({ address: isString, problem: isString });
+const isFailure = shape({ address: isString, code: isString, message: isString });
+const isTDStatus = shape({ state: isString, host: isString, port: isNumber });
+const isRoute = shape({ name: isString, match: isString, destinations: Array.isArray });
+const requestId = optional(isNumber);
+
+const versionFields: Fields = { version: isVersion, minVersion: isVersion };
+
+const recorderFields: Fields = { recording: isBoolean, messages: isNumber, error: optional(isString) };
+const replayFields: Fields = { state: oneOf('stopped', 'playing', 'paused'), position: isNumber, duration: isNumber };
+
+const CLIENT_SCHEMA: Schema<ClientMessage> = {
+  hello: versionFields,
+  osc: { address: isString, args: arrayOf(isOSCArg), requestId },
+  bundle: { timeTag: optional(isNumber), packets: arrayOf(isOSCMessage), requestId },
+  ping: { id: isNumber, sentAt: isNumber },
+  login: { pin: isString },
+  getConfig: { requestId },
+  // The bridge checks the config itself and answers invalid_config
+  setConfig: { config: isRecord, requestId },
+  testDestination: { host: isString, port: isNumber, transport: optional(oneOf('udp', 'tcp')), requestId },
+  getStats: { requestId },
+  listSessions: { requestId },
+  record: { action: oneOf('start', 'stop'), name: optional(isString), requestId },
+  replay: {
+    action: oneOf('load', 'play', 'pause', 'stop', 'seek', 'loop', 'speed'),
+    session: optional(isString),
+    position: optional(isNumber),
+    loop: optional(isBoolean),
+    speed: optional(isNumber),
+    requestId
+  }
+};
+
+const SERVER_SCHEMA: Schema<ServerMessage> = {
+  hello: versionFields,
+  status: {
+    message: isString,
+    routes: arrayOf(isRoute),
+    tdStatus: optional(isTDStatus),
+    authRequired: optional(isBoolean),
+    role: optional(isRole),
+    recorder: optional(shape(recorderFields)),
+    replay: optional(shape(replayFields))
+  },
+  pong: { id: isNumber, sentAt: isNumber },
+  auth: { ok: isBoolean, role: optional(isRole), message: optional(isString) },
+  osc: { source: oneOf('touchdesigner', 'peer'), address: isString, args: Array.isArray },
+  snapshot: { values: arrayOf(isValue) },
+  ack: { requestId: isNumber, action: oneOf('ok', 'clamped', 'passed'), problems: arrayOf(isProblem) },
+  nack: { requestId: isNumber, code: isString, message: isString, failures: arrayOf(isFailure), problems: optional(arrayOf(isProblem)) },
+  error: { code: isString, message: isString, requestId, problems: optional(arrayOf(isProblem)) },
+  stats: { stats: isRecord, requestId },
+  routes: { routes: arrayOf(isRoute), tdStatus: optional(isTDStatus) },
+  tdStatus: { state: isString, host: isString, port: isNumber },
+  recorderState: { ...recorderFields, requestId },
+  replayState: { ...replayFields, requestId },
+  resync: { reason: isString },
+  config: { config: isRecord, requestId },
+  testResult: { host: isString, port: isNumber, ok: isBoolean, requestId },
+  sessions: { sessions: arrayOf(shape({ name: isString })), requestId }
+};
+
+const parseWith = <T extends { type: string }>(schema: Schema<T>, value: unknown): ParseResult<T> => {
+  if (!isRecord(value)) return { ok: false, error: 'Message is not a JSON object' };
+
+  const { type } = value;
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(schema, type)) {
+    return { ok: false, error: `Unknown message type ${JSON.stringify(type)}` };
+  }
+
+  const fields: Fields = schema[type as T['type']];
+  const invalid = Object.keys(fields).find((key) => !fields[key](value[key]));
+  if (invalid) return { ok: false, error: `Invalid ${invalid} in ${type} message` };
+  return { ok: true, message: value as T };
+};
+
+/**
+ * Check a decoded message from a panel. Panels from before the protocol send
+ * untyped { address, args } messages; those are read as osc messages.
+ */
+export const parseClientMessage = (value: unknown): ParseResult<ClientMessage> => {
+  if (isRecord(value) && value.type === undefined && typeof value.address === 'string') {
+    const args = value.args === undefined || value.args === null ? [] : Array.isArray(value.args) ? value.args : [value.args];
+    return parseWith(CLIENT_SCHEMA, { ...value, type: 'osc', args });
+  }
+  return parseWith(CLIENT_SCHEMA, value);
+};
+
+/** Check a decoded message from the bridge */
+export const parseServerMessage = (value: unknown): ParseResult<ServerMessage> => parseWith(SERVER_SCHEMA, value);
+
+/** The opening message of either side */
+export const helloMessage = (): HelloMessage => ({
+  type: 'hello',
+  version: PROTOCOL_VERSION,
+  minVersion: MIN_PROTOCOL_VERSION
+});
+
+/** Highest version both sides speak, or null when they have none in common */
+export const negotiateVersion = (remote: Pick<HelloMessage, 'version' | 'minVersion'>) => {
+  const version = Math.min(PROTOCOL_VERSION, remote.version);
+  return version >= MIN_PROTOCOL_VERSION && version >= remote.minVersion ? version : null;
+};
+
+/** Which side is out of date, for a peer whose versions don't overlap with ours */
+export const describeVersionMismatch = (remote: Pick<HelloMessage, 'version' | 'minVersion'>, peer: string, self: string) =>
+  remote.version < MIN_PROTOCOL_VERSION
+    ? `The ${peer} speaks protocol v${remote.version} but the ${self} needs v${MIN_PROTOCOL_VERSION} or newer - update the ${peer}`
+    : `The ${peer} needs protocol v${remote.minVersion} or newer but the ${self} speaks v${PROTOCOL_VERSION} - update the ${self}`;
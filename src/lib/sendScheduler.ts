@@ -0,0 +1,117 @@
+// src/lib/sendScheduler.ts
+
+export interface SendSchedulerOptions<T> {
+  /** Default maximum sends per second for each address (0 = unlimited) */
+  rate: number;
+  /** Per-address rate overrides in Hz (0 = unlimited) */
+  overrides?: Record<string, number>;
+  /** Actually deliver a value for an address */
+  transmit: (address: string, value: T) => void;
+  /** Called with a pending value that was replaced or cancelled before it went out */
+  onDrop?: (address: string, value: T) => void;
+}
+
+interface AddressSlot<T> {
+  lastSentAt: number;
+  pending?: { value: T };
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Per-address send throttle where the latest value wins.
+ * The first value after a quiet period goes out right away, values arriving
+ * faster than the address rate are coalesced and the newest one is flushed
+ * when the interval elapses, so the final value is never lost.
+ */
+export const createSendScheduler = <T>(initialOptions: SendSchedulerOptions<T>) => {
+  let options = initialOptions;
+  const slots = new Map<string, AddressSlot<T>>();
+
+  const intervalFor = (address: string) => {
+    const rate = options.overrides?.[address] ?? options.rate;
+    return rate > 0 ? 1000 / rate : 0;
+  };
+
+  const getSlot = (address: string) => {
+    let slot = slots.get(address);
+    if (!slot) {
+      slot = { lastSentAt: -Infinity };
+      slots.set(address, slot);
+    }
+    return slot;
+  };
+
+  const deliver = (address: string, slot: AddressSlot<T>, value: T) => {
+    slot.lastSentAt = Date.now();
+    options.transmit(address, value);
+  };
+
+  const drop = (address: string, slot: AddressSlot<T>) => {
+    const pending = slot.pending;
+    slot.pending = undefined;
+    if (pending) options.onDrop?.(address, pending.value);
+  };
+
+  const flush = (address: string) => {
+    const slot = slots.get(address);
+    if (!slot) return;
+    if (slot.timer) clearTimeout(slot.timer);
+    slot.timer = undefined;
+    const pending = slot.pending;
+    slot.pending = undefined;
+    if (pending) deliver(address, slot, pending.value);
+  };
+
+  return {
+    /** Queue a value; it is sent now or coalesced until the address interval elapses */
+    schedule(address: string, value: T) {
+      const slot = getSlot(address);
+      const interval = intervalFor(address);
+      const elapsed = Date.now() - slot.lastSentAt;
+
+      if (!slot.timer && elapsed >= interval) {
+        deliver(address, slot, value);
+        return;
+      }
+
+      drop(address, slot);
+      slot.pending = { value };
+      if (!slot.timer) {
+        slot.timer = setTimeout(() => flush(address), interval - elapsed);
+      }
+    },
+
+    /** Send a value immediately, replacing anything still pending for the address */
+    sendNow(address: string, value: T) {
+      const slot = getSlot(address);
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.timer = undefined;
+      drop(address, slot);
+      deliver(address, slot, value);
+    },
+
+    /** Drop a pending value without sending it */
+    cancel(address: string) {
+      const slot = slots.get(address);
+      if (!slot) return;
+      if (slot.timer) clearTimeout(slot.timer);
+      slot.timer = undefined;
+      drop(address, slot);
+    },
+
+    /** Drop every pending value (e.g. when the connection goes away) */
+    clear() {
+      slots.forEach((slot, address) => {
+        if (slot.timer) clearTimeout(slot.timer);
+        drop(address, slot);
+      });
+      slots.clear();
+    },
+
+    setOptions(next: Partial<SendSchedulerOptions<T>>) {
+      options = { ...options, ...next };
+    },
+  };
+};
+
+export type SendScheduler<T> = ReturnType<typeof createSendScheduler<T>>;
@@ -8,7 +8,7 @@ interface FeedbackState {
   blackLevel: number;
   saturation: number;
   
-  lastChangeSource: 'user' | 'recall' | 'init';
+  lastChangeSource: 'user' | 'recall' | 'remote' | 'init';
   
   // Actions
   setBrightnessContrast: (x: number, y: number) => void;
@@ -16,6 +16,7 @@ interface FeedbackState {
   setSaturation: (value: number) => void;
   setAllValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
   recallValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
+  applyRemoteValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
 }
 
 type FeedbackActions = {
@@ -24,6 +25,7 @@ type FeedbackActions = {
   setSaturation: (value: number) => void;
   setAllValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
   recallValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
+  applyRemoteValues: (values: Partial<Omit<FeedbackState, 'lastChangeSource' | keyof FeedbackActions>>) => void;
 };
 
 export const useFeedbackStore = create<FeedbackState>((set) => ({
@@ -46,4 +48,8 @@ export const useFeedbackStore = create<FeedbackState>((set) => ({
   
   recallValues: (values) => 
     set({ ...values, lastChangeSource: 'recall' }),
+  
+  // Values reported back by TouchDesigner
+  applyRemoteValues: (values) => 
+    set({ ...values, lastChangeSource: 'remote' }),
 }));
\ No newline at end of file
@@ -15,7 +15,7 @@ interface FXState {
   // Color picker value (RGBA format to preserve alpha)
   tintColor: { r: number; g: number; b: number; a: number };
   
-  lastChangeSource: 'user' | 'recall' | 'init';
+  lastChangeSource: 'user' | 'recall' | 'remote' | 'init';
   
   // Actions
   setBrightnessContrast: (x: number, y: number) => void;
@@ -23,9 +23,10 @@ interface FXState {
   setPan: (x: number, y: number) => void;
   setBlackLevel: (value: number) => void;
   setSaturation: (value: number) => void;
-  setTintColor: (color: { r: number; g: number; b: number; a: number }, source?: 'user' | 'recall') => void;
+  setTintColor: (color: { r: number; g: number; b: number; a: number }, source?: 'user' | 'recall' | 'remote') => void;
   setAllValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
   recallValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
+  applyRemoteValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
 }
 
 type FXActions = {
@@ -34,9 +35,10 @@ type FXActions = {
   setPan: (x: number, y: number) => void;
   setBlackLevel: (value: number) => void;
   setSaturation: (value: number) => void;
-  setTintColor: (color: { r: number; g: number; b: number; a: number }, source?: 'user' | 'recall') => void;
+  setTintColor: (color: { r: number; g: number; b: number; a: number }, source?: 'user' | 'recall' | 'remote') => void;
   setAllValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
   recallValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
+  applyRemoteValues: (values: Partial<Omit<FXState, 'lastChangeSource' | keyof FXActions>>) => void;
 };
 
 // Create separate stores for pre and post FX
@@ -64,7 +66,7 @@ const createFXStore = () => create<FXState>((set) => ({
   setSaturation: (value: number) => 
     set({ saturation: value, lastChangeSource: 'user' }),
   
-  setTintColor: (color: { r: number; g: number; b: number; a: number }, source: 'user' | 'recall' = 'user') =>
+  setTintColor: (color: { r: number; g: number; b: number; a: number }, source: 'user' | 'recall' | 'remote' = 'user') =>
     set({ tintColor: color, lastChangeSource: source }),
   
   setAllValues: (values) => 
@@ -72,6 +74,10 @@ const createFXStore = () => create<FXState>((set) => ({
   
   recallValues: (values) => 
     set({ ...values, lastChangeSource: 'recall' }),
+  
+  // Values reported back by TouchDesigner
+  applyRemoteValues: (values) => 
+    set({ ...values, lastChangeSource: 'remote' }),
 }));
 
 export const usePreFXStore = createFXStore();
@@ -3,8 +3,8 @@ import { create } from 'zustand';
 interface LightsState {
   leftColor: string;
   rightColor: string;
-  lastChangeSource: 'user' | 'recall' | 'init';
-  setColors: (leftColor: string, rightColor: string, source?: 'user' | 'recall') => void;
+  lastChangeSource: 'user' | 'recall' | 'remote' | 'init';
+  setColors: (leftColor: string, rightColor: string, source?: 'user' | 'recall' | 'remote') => void;
   recallColors: (leftColor: string, rightColor: string) => void;
 }
 
@@ -13,7 +13,7 @@ export const useLightsStore = create<LightsState>((set) => ({
   rightColor: '#0000ff', // Default blue
   lastChangeSource: 'init',
   
-  setColors: (leftColor: string, rightColor: string, source: 'user' | 'recall' = 'user') =>
+  setColors: (leftColor: string, rightColor: string, source: 'user' | 'recall' | 'remote' = 'user') =>
     set({ leftColor, rightColor, lastChangeSource: source }),
   
   // Special action for recall operations - updates state and marks as recall
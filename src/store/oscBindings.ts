@@ -0,0 +1,197 @@
+// src/store/oscBindings.ts
+import { usePromptStore } from './promptStore';
+import { usePreFXStore, usePostFXStore } from './fxStore';
+import { useFeedbackStore } from './feedbackStore';
+import { useLightsStore } from './lightsStore';
+import type { OSCArg, OSCMessage } from '@/hooks/useOSC';
+
+interface OSCBinding {
+  /** OSC address this binding handles */
+  address: string;
+  /** Apply incoming OSC arguments to the matching store */
+  apply: (args: unknown[]) => void;
+  /** Current store value as OSC arguments */
+  read: () => OSCArg[];
+}
+
+const toNumber = (value: unknown): number | undefined => {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : undefined;
+  }
+  return undefined;
+};
+
+const toNumbers = (args: unknown[], count: number): number[] | null => {
+  if (args.length < count) return null;
+  const values = args.slice(0, count).map(toNumber);
+  return values.every((v): v is number => v !== undefined) ? values as number[] : null;
+};
+
+const toByte = (v: number) => Math.round(Math.max(0, Math.min(1, v)) * 255);
+
+const rgbToHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map((c) => toByte(c).toString(16).padStart(2, '0')).join('')}`;
+
+// Hex color to normalized RGBA with alpha locked to 1.0 (same as LightsView)
+const hexToRgba = (hex: string): number[] => {
+  const result = /^#?([a-f\d]{2})([a-f\d]{2})([a-f\d]{2})$/i.exec(hex);
+  if (!result) return [0, 0, 0, 1];
+  return [parseInt(result[1], 16) / 255, parseInt(result[2], 16) / 255, parseInt(result[3], 16) / 255, 1];
+};
+
+const fxBindings = (prefix: 'pre' | 'post'): OSCBinding[] => {
+  const store = prefix === 'pre' ? usePreFXStore : usePostFXStore;
+  const apply = store.getState().applyRemoteValues;
+  const state = () => store.getState();
+
+  return [
+    {
+      address: `/${prefix}/brightness_contrast`,
+      apply: (args) => {
+        const v = toNumbers(args, 2);
+        if (v) apply({ brightnessContrast: { x: v[0], y: v[1] } });
+      },
+      read: () => [state().brightnessContrast.x, state().brightnessContrast.y],
+    },
+    {
+      address: `/${prefix}/zoom`,
+      apply: (args) => {
+        const v = toNumbers(args, 2);
+        if (v) apply({ zoom: { x: v[0], y: v[1] } });
+      },
+      read: () => [state().zoom.x, state().zoom.y],
+    },
+    {
+      address: `/${prefix}/pan`,
+      apply: (args) => {
+        const v = toNumbers(args, 2);
+        if (v) apply({ pan: { x: v[0], y: v[1] } });
+      },
+      read: () => [state().pan.x, state().pan.y],
+    },
+    {
+      address: `/${prefix}/black_level`,
+      apply: (args) => {
+        const v = toNumbers(args, 1);
+        if (v) apply({ blackLevel: v[0] });
+      },
+      read: () => [state().blackLevel],
+    },
+    {
+      address: `/${prefix}/saturation`,
+      apply: (args) => {
+        const v = toNumbers(args, 1);
+        if (v) apply({ saturation: v[0] });
+      },
+      read: () => [state().saturation],
+    },
+    {
+      address: `/${prefix}/tint`,
+      apply: (args) => {
+        const v = toNumbers(args, 4);
+        // Store keeps RGB in 0-255, OSC carries 0-1
+        if (v) apply({ tintColor: { r: toByte(v[0]), g: toByte(v[1]), b: toByte(v[2]), a: Math.max(0, Math.min(1, v[3])) } });
+      },
+      read: () => {
+        const { r, g, b, a } = state().tintColor;
+        return [r / 255, g / 255, b / 255, a];
+      },
+    },
+  ];
+};
+
+const feedbackBindings: OSCBinding[] = [
+  {
+    address: '/feedback/brightness_contrast',
+    apply: (args) => {
+      const v = toNumbers(args, 2);
+      if (v) useFeedbackStore.getState().applyRemoteValues({ brightnessContrast: { x: v[0], y: v[1] } });
+    },
+    read: () => {
+      const { x, y } = useFeedbackStore.getState().brightnessContrast;
+      return [x, y];
+    },
+  },
+  {
+    address: '/feedback/black_level',
+    apply: (args) => {
+      const v = toNumbers(args, 1);
+      if (v) useFeedbackStore.getState().applyRemoteValues({ blackLevel: v[0] });
+    },
+    read: () => [useFeedbackStore.getState().blackLevel],
+  },
+  {
+    address: '/feedback/saturation',
+    apply: (args) => {
+      const v = toNumbers(args, 1);
+      if (v) useFeedbackStore.getState().applyRemoteValues({ saturation: v[0] });
+    },
+    read: () => [useFeedbackStore.getState().saturation],
+  },
+];
+
+const promptBindings: OSCBinding[] = [
+  {
+    address: '/prompt',
+    apply: (args) => {
+      const [leftPrompt, rightPrompt, bias] = args;
+      const currentBias = toNumber(bias);
+      if (typeof leftPrompt !== 'string' || typeof rightPrompt !== 'string' || currentBias === undefined) return;
+      usePromptStore.getState().applyRemoteValues({ leftPrompt, rightPrompt, currentBias });
+    },
+    read: () => {
+      const { leftPrompt, rightPrompt, currentBias } = usePromptStore.getState();
+      return [leftPrompt, rightPrompt, currentBias];
+    },
+  },
+  {
+    address: '/seed_travel_speed',
+    apply: (args) => {
+      const v = toNumbers(args, 1);
+      if (v) usePromptStore.getState().applyRemoteValues({ seedTravelSpeed: v[0] });
+    },
+    read: () => [usePromptStore.getState().seedTravelSpeed],
+  },
+];
+
+const lightsBindings: OSCBinding[] = [
+  {
+    address: '/lights',
+    apply: (args) => {
+      // r1, g1, b1, a1, r2, g2, b2, a2 - alpha is locked to 1.0 so it is ignored
+      const v = toNumbers(args, 8);
+      if (v) useLightsStore.getState().setColors(rgbToHex(v[0], v[1], v[2]), rgbToHex(v[4], v[5], v[6]), 'remote');
+    },
+    read: () => {
+      const { leftColor, rightColor } = useLightsStore.getState();
+      return [...hexToRgba(leftColor), ...hexToRgba(rightColor)];
+    },
+  },
+];
+
+/** Every OSC endpoint the panel knows how to mirror into its stores */
+export const oscBindings: OSCBinding[] = [
+  ...promptBindings,
+  ...fxBindings('pre'),
+  ...fxBindings('post'),
+  ...feedbackBindings,
+  ...lightsBindings,
+];
+
+/**
+ * Apply an OSC message received from TouchDesigner to the matching store.
+ * Returns false when the address is unknown; malformed arguments are ignored.
+ */
+export const applyRemoteMessage = (address: string, args: unknown[]): boolean => {
+  const binding = oscBindings.find((b) => b.address === address);
+  if (!binding) return false;
+  binding.apply(args);
+  return true;
+};
+
+/** Current value of every bound endpoint, used to push the full state back to TouchDesigner */
+export const collectResyncMessages = (): OSCMessage[] =>
+  oscBindings.map((binding) => ({ address: binding.address, args: binding.read() }));
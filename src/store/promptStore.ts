@@ -5,13 +5,14 @@ interface PromptState {
   rightPrompt: string;
   currentBias: number;
   seedTravelSpeed: number;
-  lastChangeSource: 'user' | 'recall' | 'init';
+  lastChangeSource: 'user' | 'recall' | 'remote' | 'init';
   setLeftPrompt: (prompt: string) => void;
   setRightPrompt: (prompt: string) => void;
   setBias: (bias: number) => void;
   setSeedTravelSpeed: (speed: number) => void;
   setPrompts: (leftPrompt: string, rightPrompt: string, bias: number) => void;
   recallPrompts: (leftPrompt: string, rightPrompt: string, bias: number) => void;
+  applyRemoteValues: (values: Partial<Pick<PromptState, 'leftPrompt' | 'rightPrompt' | 'currentBias' | 'seedTravelSpeed'>>) => void;
 }
 
 export const usePromptStore = create<PromptState>((set) => ({
@@ -39,4 +40,8 @@ export const usePromptStore = create<PromptState>((set) => ({
   // Special action for recall operations
   recallPrompts: (leftPrompt: string, rightPrompt: string, bias: number) => 
     set({ leftPrompt, rightPrompt, currentBias: bias, lastChangeSource: 'recall' }),
+  
+  // Values reported back by TouchDesigner
+  applyRemoteValues: (values) => 
+    set({ ...values, lastChangeSource: 'remote' }),
 }));
\ No newline at end of file
@@ -10,6 +10,8 @@ import {
   ColorPickerAlpha
 } from '@/components/ui/shadcn-io/color-picker';
 import { usePreFXStore, usePostFXStore } from '@/store/fxStore';
+import DeliveryErrorNote, { deliveryErrorRing } from '@/components/DeliveryErrorNote';
+import type { DeliveryError, OSCArg } from '@/hooks/useOSC';
 
 type RGBA = { r: number; g: number; b: number; a: number };
 
@@ -20,16 +22,22 @@ const colorEq = (a: RGBA, b: RGBA) =>
 interface FXViewProps {
   /** Whether the OSC connection is active */
   isConnected: boolean;
-  /** Callback to send OSC messages */
-  onSend?: (address: string, ...args: any[]) => void;
+  /** Callback to send OSC messages (coalesced while dragging) */
+  onSend?: (address: string, ...args: OSCArg[]) => void;
+  /** Callback to send final values immediately, bypassing coalescing */
+  onSendNow?: (address: string, ...args: OSCArg[]) => void;
   /** FX type - determines OSC endpoint */
   fxType: 'pre' | 'post';
+  /** Addresses whose last send failed, highlighted on their controls */
+  failedAddresses?: Record<string, DeliveryError>;
 }
 
 const FXView: React.FC<FXViewProps> = ({
   isConnected,
   onSend,
+  onSendNow,
   fxType,
+  failedAddresses = {},
 }) => {
   // Stabilize store reference to prevent callback recreation
   const useStore = useMemo(() => fxType === 'pre' ? usePreFXStore : usePostFXStore, [fxType]);
@@ -128,11 +136,16 @@ const FXView: React.FC<FXViewProps> = ({
     setUiSaturation(saturation);
   }, [saturation]);
 
+  // Final value goes out right away; falls back to the coalesced send
+  const sendFinal = useCallback((address: string, ...args: OSCArg[]) => {
+    (onSendNow ?? onSend)?.(address, ...args);
+  }, [onSendNow, onSend]);
+
   // Single commit to store (and one optional OSC send) on release
   const commitTint = useCallback((c: RGBA) => {
     setTintColor({ r: c.r, g: c.g, b: c.b, a: clamp01(c.a) }, 'user');
-    if (isConnected && onSend) onSend(`/${fxType}/tint`, c.r / 255, c.g / 255, c.b / 255, clamp01(c.a));
-  }, [fxType, isConnected, onSend, setTintColor]);
+    if (isConnected) sendFinal(`/${fxType}/tint`, c.r / 255, c.g / 255, c.b / 255, clamp01(c.a));
+  }, [fxType, isConnected, sendFinal, setTintColor]);
 
   // Picker change:
   //  - while dragging: update only ref (no setState → no re-render → pointer stays)
@@ -166,9 +179,10 @@ const FXView: React.FC<FXViewProps> = ({
 
   const handleBrightnessContrastEnd = useCallback((value: { x: number; y: number }) => {
     brightnessContrastInteractingRef.current = false;
+    sendFinal(`/${fxType}/brightness_contrast`, value.x, value.y);
     setUiBrightnessContrast(value);
     setBrightnessContrast(value.x, value.y);
-  }, [setBrightnessContrast]);
+  }, [fxType, sendFinal, setBrightnessContrast]);
 
   const handleZoomChange = useCallback((value: { x: number; y: number }) => {
     onSend?.(`/${fxType}/zoom`, value.x, value.y);
@@ -182,9 +196,10 @@ const FXView: React.FC<FXViewProps> = ({
 
   const handleZoomEnd = useCallback((value: { x: number; y: number }) => {
     zoomInteractingRef.current = false;
+    sendFinal(`/${fxType}/zoom`, value.x, value.y);
     setUiZoom(value);
     setZoom(value.x, value.y);
-  }, [setZoom]);
+  }, [fxType, sendFinal, setZoom]);
 
   const handlePanChange = useCallback((value: { x: number; y: number }) => {
     onSend?.(`/${fxType}/pan`, value.x, value.y);
@@ -198,9 +213,10 @@ const FXView: React.FC<FXViewProps> = ({
 
   const handlePanEnd = useCallback((value: { x: number; y: number }) => {
     panInteractingRef.current = false;
+    sendFinal(`/${fxType}/pan`, value.x, value.y);
     setUiPan(value);
     setPan(value.x, value.y);
-  }, [setPan]);
+  }, [fxType, sendFinal, setPan]);
 
   // Knob Controls: clean and simple (same as FeedbackView)
   const handleBlackLevelChange = useCallback((value: number) => {
@@ -208,26 +224,32 @@ const FXView: React.FC<FXViewProps> = ({
   }, [fxType, onSend]);
 
   const handleBlackLevelChangeEnd = useCallback((value: number) => {
+    sendFinal(`/${fxType}/black_level`, value);
     setUiBlackLevel(value);
     setBlackLevel(value);
-  }, [setBlackLevel]);
+  }, [fxType, sendFinal, setBlackLevel]);
 
   const handleSaturationChange = useCallback((value: number) => {
     onSend?.(`/${fxType}/saturation`, value);
   }, [fxType, onSend]);
 
   const handleSaturationChangeEnd = useCallback((value: number) => {
+    sendFinal(`/${fxType}/saturation`, value);
     setUiSaturation(value);
     setSaturation(value);
-  }, [setSaturation]);
-
-  const ControlCard: React.FC<{ title: string; description: string; children: React.ReactNode; className?: string; }> = ({ title, description, children, className }) => (
-    <div className={`bg-card rounded-lg shadow-md p-4 flex flex-col ${className}`}>
-      <h3 className="text-lg font-semibold mb-2 text-foreground">{title}</h3>
-      <p className="text-xs text-muted-foreground mb-4 flex-grow">{description}</p>
-      {children}
-    </div>
-  );
+  }, [fxType, sendFinal, setSaturation]);
+
+  const ControlCard: React.FC<{ title: string; description: string; children: React.ReactNode; className?: string; address?: string; }> = ({ title, description, children, className, address }) => {
+    const error = address ? failedAddresses[address] : undefined;
+    return (
+      <div className={`bg-card rounded-lg shadow-md p-4 flex flex-col ${deliveryErrorRing(error)} ${className}`}>
+        <h3 className="text-lg font-semibold mb-2 text-foreground">{title}</h3>
+        <p className="text-xs text-muted-foreground mb-4 flex-grow">{description}</p>
+        {children}
+        <DeliveryErrorNote error={error} />
+      </div>
+    );
+  };
 
   // Dual-mode control for the picker:
   //  - Not dragging: controlled with value={rgbaToHex(uiColor)}
@@ -256,6 +278,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1">
           <ControlCard
             title="Brightness & Contrast"
+            address={`/${fxType}/brightness_contrast`}
             description={`X: Brightness, Y: Contrast. Sends to /${fxType}/brightness_contrast`}
           >
             <div
@@ -276,6 +299,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1 h-full">
           <ControlCard
             title="Tint Control"
+            address={`/${fxType}/tint`}
             description={`Color tinting effect. Commit on release → /${fxType}/tint`}
             className="h-full"
           >
@@ -318,6 +342,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1">
           <ControlCard
             title="Black Level"
+            address={`/${fxType}/black_level`}
             description={`Controls the black point. Sends to /${fxType}/black_level`}
           >
             <div className="w-full h-full flex items-center justify-center">
@@ -336,6 +361,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1">
           <ControlCard
             title="Saturation"
+            address={`/${fxType}/saturation`}
             description={`Controls the color intensity. Sends to /${fxType}/saturation`}
           >
             <div className="w-full h-full flex items-center justify-center">
@@ -358,6 +384,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1">
           <ControlCard
             title="Zoom Control"
+            address={`/${fxType}/zoom`}
             description={`X: Zoom X, Y: Zoom Y. Sends to /${fxType}/zoom`}
           >
             <div
@@ -378,6 +405,7 @@ const FXView: React.FC<FXViewProps> = ({
         <div className="flex-1">
           <ControlCard
             title="Pan Control"
+            address={`/${fxType}/pan`}
             description={`X: Pan X, Y: Pan Y. Sends to /${fxType}/pan`}
           >
             <div
@@ -4,17 +4,25 @@ import React, { useCallback, useRef, useEffect, useState } from 'react';
 import XYControl from '@/components/common/XYControl';
 import Knob from '@/components/common/Knob';
 import { useFeedbackStore } from '@/store/feedbackStore';
+import DeliveryErrorNote, { deliveryErrorRing } from '@/components/DeliveryErrorNote';
+import type { DeliveryError, OSCArg } from '@/hooks/useOSC';
 
 interface FeedbackViewProps {
   /** Whether the OSC connection is active */
   isConnected: boolean;
-  /** Callback to send OSC messages */
-  onSend: (address: string, ...args: any[]) => void;
+  /** Callback to send OSC messages (coalesced while dragging) */
+  onSend: (address: string, ...args: OSCArg[]) => void;
+  /** Callback to send final values immediately, bypassing coalescing */
+  onSendNow?: (address: string, ...args: OSCArg[]) => void;
+  /** Addresses whose last send failed, highlighted on their controls */
+  failedAddresses?: Record<string, DeliveryError>;
 }
 
 const FeedbackView: React.FC<FeedbackViewProps> = ({
   isConnected,
   onSend,
+  onSendNow,
+  failedAddresses = {},
 }) => {
   // Atomic selectors
   const brightnessContrast = useFeedbackStore((state) => state.brightnessContrast);
@@ -51,6 +59,11 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
     setUiSaturation(saturation);
   }, [saturation]);
 
+  // Final value goes out right away; falls back to the coalesced send
+  const sendFinal = useCallback((address: string, ...args: OSCArg[]) => {
+    (onSendNow ?? onSend)(address, ...args);
+  }, [onSendNow, onSend]);
+
   // XY Control: dual-mode pattern
   const handleBrightnessContrastChange = useCallback((value: { x: number; y: number }) => {
     onSend('/feedback/brightness_contrast', value.x, value.y);
@@ -64,9 +77,10 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
 
   const handleBrightnessContrastEnd = useCallback((value: { x: number; y: number }) => {
     brightnessContrastInteractingRef.current = false;
+    sendFinal('/feedback/brightness_contrast', value.x, value.y);
     setUiBrightnessContrast(value);
     setBrightnessContrast(value.x, value.y);
-  }, [setBrightnessContrast]);
+  }, [sendFinal, setBrightnessContrast]);
 
   // Knob Controls: clean and simple
   const handleBlackLevelChange = useCallback((value: number) => {
@@ -74,31 +88,37 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
   }, [onSend]);
 
   const handleBlackLevelEnd = useCallback((value: number) => {
+    sendFinal('/feedback/black_level', value);
     setUiBlackLevel(value);
     setBlackLevel(value);
-  }, [setBlackLevel]);
+  }, [sendFinal, setBlackLevel]);
 
   const handleSaturationChange = useCallback((value: number) => {
     onSend('/feedback/saturation', value);
   }, [onSend]);
 
   const handleSaturationEnd = useCallback((value: number) => {
+    sendFinal('/feedback/saturation', value);
     setUiSaturation(value);
     setSaturation(value);
-  }, [setSaturation]);
+  }, [sendFinal, setSaturation]);
 
   // Dual-mode control props for XYControl
   const brightnessContrastControlledProps = !brightnessContrastInteractingRef.current
     ? { value: uiBrightnessContrast }
     : {};
 
-  const ControlCard: React.FC<{ title: string; description: string; children: React.ReactNode }> = ({ title, description, children }) => (
-    <div className="bg-card rounded-lg shadow-md p-4 flex flex-col">
-      <h3 className="text-lg font-semibold mb-2 text-foreground">{title}</h3>
-      <p className="text-xs text-muted-foreground mb-4 flex-grow">{description}</p>
-      {children}
-    </div>
-  );
+  const ControlCard: React.FC<{ title: string; description: string; children: React.ReactNode; address?: string }> = ({ title, description, children, address }) => {
+    const error = address ? failedAddresses[address] : undefined;
+    return (
+      <div className={`bg-card rounded-lg shadow-md p-4 flex flex-col ${deliveryErrorRing(error)}`}>
+        <h3 className="text-lg font-semibold mb-2 text-foreground">{title}</h3>
+        <p className="text-xs text-muted-foreground mb-4 flex-grow">{description}</p>
+        {children}
+        <DeliveryErrorNote error={error} />
+      </div>
+    );
+  };
 
   return (
     <div className="flex h-full gap-6">
@@ -106,6 +126,7 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
       <div className="flex-1">
         <ControlCard
           title="Brightness & Contrast"
+          address="/feedback/brightness_contrast"
           description="X: Brightness, Y: Contrast. Sends to /feedback/brightness_contrast"
         >
           <div
@@ -128,6 +149,7 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
       <div className="flex-1 flex flex-col gap-6">
         <ControlCard
           title="Black Level"
+          address="/feedback/black_level"
           description="Controls the black point. Sends to /feedback/black_level"
         >
           <div className="w-full h-full flex items-center justify-center">
@@ -144,6 +166,7 @@ const FeedbackView: React.FC<FeedbackViewProps> = ({
         </ControlCard>
         <ControlCard
           title="Saturation"
+          address="/feedback/saturation"
           description="Controls the color intensity. Sends to /feedback/saturation"
         >
           <div className="w-full h-full flex items-center justify-center">
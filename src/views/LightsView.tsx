@@ -3,16 +3,20 @@
 import React, { useCallback, useEffect } from 'react';
 import ColorMixer from '@/components/ColorMixer';
 import ColorHistory from '@/components/ColorHistory';
+import DeliveryErrorNote, { deliveryErrorRing } from '@/components/DeliveryErrorNote';
 import { useLightsStore } from '@/store/lightsStore';
+import type { DeliveryError } from '@/hooks/useOSC';
 
 interface LightsViewProps {
   /** Whether the OSC connection is active */
   isConnected: boolean;
   /** Callback to send OSC messages */
   onSend: (address: string, ...args: any[]) => void;
+  /** Addresses whose last send failed, highlighted on their controls */
+  failedAddresses?: Record<string, DeliveryError>;
 }
 
-const LightsView: React.FC<LightsViewProps> = ({ isConnected, onSend }) => {
+const LightsView: React.FC<LightsViewProps> = ({ isConnected, onSend, failedAddresses = {} }) => {
   const { leftColor, rightColor, lastChangeSource } = useLightsStore();
 
   // Convert hex color to RGB values (0-255)
@@ -65,7 +69,7 @@ const LightsView: React.FC<LightsViewProps> = ({ isConnected, onSend }) => {
   return (
     <div className="h-full flex flex-col space-y-6">
       {/* Main Color Mixer */}
-      <div className="bg-card rounded-lg shadow-md p-6">
+      <div className={`bg-card rounded-lg shadow-md p-6 ${deliveryErrorRing(failedAddresses['/lights'])}`}>
         <h2 className="text-xl font-semibold mb-4 text-foreground">Light Color Mixer</h2>
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
@@ -77,6 +81,7 @@ const LightsView: React.FC<LightsViewProps> = ({ isConnected, onSend }) => {
             leftLabel="Light A"
             rightLabel="Light B"
           />
+          <DeliveryErrorNote error={failedAddresses['/lights']} />
         </div>
       </div>
 
@@ -3,18 +3,22 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import PromptMixer from '@/components/PromptMixer';
 import PromptHistory from '@/components/PromptHistory';
+import DeliveryErrorNote, { deliveryErrorRing } from '@/components/DeliveryErrorNote';
 import { usePromptStore } from '@/store/promptStore';
+import type { DeliveryError } from '@/hooks/useOSC';
 
 interface PromptViewProps {
   /** Whether the OSC connection is active */
   isConnected: boolean;
   /** Callback to send OSC messages */
   onSend: (address: string, ...args: any[]) => void;
+  /** Addresses whose last send failed, highlighted on their controls */
+  failedAddresses?: Record<string, DeliveryError>;
 }
 
 const STORAGE_KEY = 'prompt-history';
 
-const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend }) => {
+const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend, failedAddresses = {} }) => {
   const {
     leftPrompt,
     rightPrompt,
@@ -95,7 +99,7 @@ const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend }) => {
   return (
     <div className="h-full flex flex-col space-y-6">
       {/* Main Prompt Mixer */}
-      <div className="bg-card rounded-lg shadow-md p-6">
+      <div className={`bg-card rounded-lg shadow-md p-6 ${deliveryErrorRing(failedAddresses['/prompt'])}`}>
         <h2 className="text-xl font-semibold mb-4 text-foreground">Prompt Mixer</h2>
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
@@ -113,6 +117,7 @@ const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend }) => {
             leftPlaceholder="Enter your left prompt here..."
             rightPlaceholder="Enter your right prompt here..."
           />
+          <DeliveryErrorNote error={failedAddresses['/prompt']} />
         </div>
       </div>
 
@@ -126,7 +131,7 @@ const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend }) => {
       </div>
 
       {/* Seed Travel Speed Control */}
-      <div className="bg-card rounded-lg shadow-md p-6">
+      <div className={`bg-card rounded-lg shadow-md p-6 ${deliveryErrorRing(failedAddresses['/seed_travel_speed'])}`}>
         <h2 className="text-xl font-semibold mb-4 text-foreground">Seed Travel Speed</h2>
         <div className="space-y-4">
           <p className="text-sm text-muted-foreground">
@@ -182,6 +187,7 @@ const PromptView: React.FC<PromptViewProps> = ({ isConnected, onSend }) => {
               <span>Fast</span>
             </div>
           </div>
+          <DeliveryErrorNote error={failedAddresses['/seed_travel_speed']} />
         </div>
       </div>
     </div>
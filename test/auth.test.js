@@ -0,0 +1,69 @@
+// test/auth.test.js - Login lockouts per client IP
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { createLoginLimiter } = require('../bridge/auth');
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// A limiter on a clock the test moves by hand
+function setup() {
+    const clock = { time: 0 };
+    const limiter = createLoginLimiter({ maxAttempts: 3, lockout: MINUTE, maxLockout: 4 * MINUTE, now: () => clock.time });
+    const failTimes = (ip, count) => Array.from({ length: count }, () => limiter.fail(ip));
+    return { clock, limiter, failTimes };
+}
+
+describe('createLoginLimiter', () => {
+    it('locks an IP out after maxAttempts wrong PINs', () => {
+        const { limiter, failTimes } = setup();
+        assert.deepEqual(failTimes('10.0.0.1', 3), [0, 0, MINUTE]);
+        assert.equal(limiter.lockedFor('10.0.0.1'), MINUTE);
+        assert.equal(limiter.lockedFor('10.0.0.2'), 0);
+    });
+
+    it('counts attempts until the lockout', () => {
+        const { limiter, failTimes } = setup();
+        failTimes('10.0.0.1', 2);
+        assert.equal(limiter.attempts('10.0.0.1'), 2);
+        limiter.fail('10.0.0.1');
+        assert.equal(limiter.attempts('10.0.0.1'), 0);
+    });
+
+    it('lets the IP try again once the lockout runs out', () => {
+        const { clock, limiter, failTimes } = setup();
+        failTimes('10.0.0.1', 3);
+        clock.time = 40 * SECOND;
+        assert.equal(limiter.lockedFor('10.0.0.1'), 20 * SECOND);
+        clock.time = MINUTE;
+        assert.equal(limiter.lockedFor('10.0.0.1'), 0);
+    });
+
+    it('doubles each consecutive lockout up to maxLockout', () => {
+        const { clock, limiter, failTimes } = setup();
+        const lockouts = [];
+        for (let round = 0; round < 4; round++) {
+            lockouts.push(failTimes('10.0.0.1', 3)[2]);
+            clock.time += limiter.lockedFor('10.0.0.1');
+        }
+        assert.deepEqual(lockouts, [MINUTE, 2 * MINUTE, 4 * MINUTE, 4 * MINUTE]);
+    });
+
+    it('starts over after a correct PIN', () => {
+        const { clock, limiter, failTimes } = setup();
+        failTimes('10.0.0.1', 3);
+        clock.time = MINUTE;
+        limiter.succeed('10.0.0.1');
+        assert.equal(limiter.attempts('10.0.0.1'), 0);
+        assert.deepEqual(failTimes('10.0.0.1', 3), [0, 0, MINUTE]);
+    });
+
+    it('forgets IPs that stayed quiet for longer than maxLockout', () => {
+        const { clock, limiter, failTimes } = setup();
+        failTimes('10.0.0.1', 3);
+        clock.time = MINUTE + 4 * MINUTE + 1;
+        // Pruning happens on the next failure from anyone
+        limiter.fail('10.0.0.2');
+        assert.deepEqual(failTimes('10.0.0.1', 3), [0, 0, MINUTE]);
+    });
+});
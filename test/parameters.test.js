@@ -0,0 +1,112 @@
+// test/parameters.test.js - Registry parsing and the validator's ok/clamp/reject/pass decisions
+const { describe, it } = require('node:test');
+const assert = require('node:assert/strict');
+const { parseParameters, createValidator } = require('../bridge/parameters');
+
+const registry = (allowUnknown = false) => parseParameters({
+    allowUnknown,
+    parameters: [
+        { address: '/pre/saturation', args: [{ name: 'amount', type: 'f', min: 0, max: 2 }] },
+        { address: '/{pre,post}/zoom', args: [{ name: 'x', type: 'f', min: 0, max: 1 }, { name: 'y', type: 'f', min: 0, max: 1 }] },
+        { address: '/frames', args: [{ name: 'count', type: 'i', min: 1, max: 100 }] },
+        { address: '/prompt', args: [{ name: 'text', type: 's' }] }
+    ]
+});
+
+const message = (address, ...args) => ({ address, args });
+const f = (value) => ({ type: 'f', value });
+
+describe('parseParameters', () => {
+    it('needs a parameters array', () => {
+        assert.throws(() => parseParameters({}), /"parameters" array/);
+    });
+
+    it('rejects unknown types and bad ranges', () => {
+        assert.throws(() => parseParameters({ parameters: [{ address: '/a', args: [{ type: 'x' }] }] }), /unknown type/);
+        assert.throws(() => parseParameters({ parameters: [{ address: '/a', args: [{ type: 'f', min: 2, max: 1 }] }] }), /invalid range/);
+        assert.throws(() => parseParameters({ parameters: [{ address: '/a', args: [{ type: 's', min: 0 }] }] }), /cannot have a min or max/);
+    });
+
+    it('matches pattern addresses', () => {
+        const { parameters } = registry();
+        assert.ok(parameters[1].matches('/post/zoom'));
+        assert.ok(!parameters[1].matches('/mid/zoom'));
+    });
+});
+
+describe('createValidator', () => {
+    it('refuses an unknown mode', () => {
+        assert.throws(() => createValidator({ registry: registry(), mode: 'drop' }), /Validation mode/);
+    });
+
+    it('lets in-range messages through untouched', () => {
+        const packet = message('/pre/saturation', f(1.5));
+        const result = createValidator({ registry: registry(), mode: 'reject' }).validate(packet);
+        assert.deepEqual(result, { action: 'ok', packet, problems: [] });
+    });
+
+    it('clamps out-of-range numbers in clamp mode', () => {
+        const result = createValidator({ registry: registry(), mode: 'clamp' }).validate(message('/pre/saturation', f(900)));
+        assert.equal(result.action, 'clamped');
+        assert.deepEqual(result.packet, message('/pre/saturation', f(2)));
+        assert.deepEqual(result.problems, [
+            { address: '/pre/saturation', problem: 'out_of_range', arg: 0, name: 'amount', value: 900, min: 0, max: 2 }
+        ]);
+    });
+
+    it('truncates clamped integers', () => {
+        const result = createValidator({ registry: registry(), mode: 'clamp' }).validate(message('/frames', { type: 'i', value: -3 }));
+        assert.deepEqual(result.packet, message('/frames', { type: 'i', value: 1 }));
+    });
+
+    it('rejects out-of-range numbers in reject mode', () => {
+        const result = createValidator({ registry: registry(), mode: 'reject' }).validate(message('/pre/saturation', f(-1)));
+        assert.equal(result.action, 'rejected');
+        assert.equal(result.packet, null);
+        assert.equal(result.problems[0].problem, 'out_of_range');
+    });
+
+    it('forwards everything in pass mode but reports the problems', () => {
+        const packet = message('/pre/saturation', f(900));
+        const result = createValidator({ registry: registry(), mode: 'pass' }).validate(packet);
+        assert.equal(result.action, 'passed');
+        assert.equal(result.packet, packet);
+        assert.equal(result.problems.length, 1);
+    });
+
+    it('rejects what clamping cannot fix, even in clamp mode', () => {
+        const validator = createValidator({ registry: registry(), mode: 'clamp' });
+        assert.deepEqual(validator.validate(message('/pre/zoom', f(0.5))).problems, [
+            { address: '/pre/zoom', problem: 'arg_count', expected: 2, received: 1 }
+        ]);
+        assert.equal(validator.validate(message('/pre/zoom', f(0.5))).action, 'rejected');
+        assert.equal(validator.validate(message('/prompt', f(1))).action, 'rejected');
+        assert.equal(validator.validate(message('/pre/zo om', f(1))).problems[0].problem, 'invalid_address');
+    });
+
+    it('rejects unknown addresses unless the registry allows them', () => {
+        const packet = message('/unknown', f(1));
+        const strict = createValidator({ registry: registry(false), mode: 'clamp' }).validate(packet);
+        assert.equal(strict.action, 'rejected');
+        assert.equal(strict.problems[0].problem, 'unknown_address');
+        const open = createValidator({ registry: registry(true), mode: 'clamp' }).validate(packet);
+        assert.equal(open.action, 'ok');
+    });
+
+    it('clamps a bundle as a whole', () => {
+        const bundle = { timeTag: 1, packets: [message('/pre/zoom', f(2), f(0.5)), message('/pre/saturation', f(1))] };
+        const result = createValidator({ registry: registry(), mode: 'clamp' }).validate(bundle);
+        assert.equal(result.action, 'clamped');
+        assert.deepEqual(result.packet, {
+            timeTag: 1,
+            packets: [message('/pre/zoom', f(1), f(0.5)), message('/pre/saturation', f(1))]
+        });
+    });
+
+    it('rejects a whole bundle when one message cannot be fixed', () => {
+        const bundle = { timeTag: 1, packets: [message('/pre/zoom', f(2), f(0.5)), message('/unknown', f(1))] };
+        const result = createValidator({ registry: registry(), mode: 'clamp' }).validate(bundle);
+        assert.equal(result.action, 'rejected');
+        assert.deepEqual(result.problems.map(problem => problem.problem), ['out_of_range', 'unknown_address']);
+    });
+});
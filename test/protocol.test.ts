@@ -0,0 +1,101 @@
+// test/protocol.test.ts - Message validators and version negotiation
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  negotiateVersion,
+  parseClientMessage,
+  parseServerMessage
+} from '../src/lib/protocol';
+
+describe('parseClientMessage', () => {
+  it('accepts an osc message', () => {
+    const result = parseClientMessage({ type: 'osc', address: '/pre/zoom', args: [0.5, 'a', true, { type: 'i', value: 1 }] });
+    assert.equal(result.ok, true);
+  });
+
+  it('reads an untyped legacy message as osc', () => {
+    const result = parseClientMessage({ address: '/prompt', args: 'hello' });
+    assert.deepEqual(result, { ok: true, message: { type: 'osc', address: '/prompt', args: ['hello'] } });
+  });
+
+  it('gives a legacy message without args an empty list', () => {
+    const result = parseClientMessage({ address: '/resync' });
+    assert.deepEqual(result, { ok: true, message: { type: 'osc', address: '/resync', args: [] } });
+  });
+
+  it('rejects values that are not objects', () => {
+    assert.deepEqual(parseClientMessage([]), { ok: false, error: 'Message is not a JSON object' });
+    assert.deepEqual(parseClientMessage(null), { ok: false, error: 'Message is not a JSON object' });
+  });
+
+  it('rejects unknown types', () => {
+    assert.deepEqual(parseClientMessage({ type: 'shutdown' }), { ok: false, error: 'Unknown message type "shutdown"' });
+    assert.deepEqual(parseClientMessage({ type: 'toString' }), { ok: false, error: 'Unknown message type "toString"' });
+  });
+
+  it('names the first invalid field', () => {
+    assert.deepEqual(parseClientMessage({ type: 'osc', address: 5, args: [] }), { ok: false, error: 'Invalid address in osc message' });
+    assert.deepEqual(parseClientMessage({ type: 'osc', address: '/a', args: [[1]] }), { ok: false, error: 'Invalid args in osc message' });
+    assert.deepEqual(parseClientMessage({ type: 'osc', address: '/a', args: [NaN] }), { ok: false, error: 'Invalid args in osc message' });
+  });
+
+  it('treats null optional fields as absent', () => {
+    assert.equal(parseClientMessage({ type: 'osc', address: '/a', args: [], requestId: null }).ok, true);
+    assert.equal(parseClientMessage({ type: 'osc', address: '/a', args: [], requestId: '1' }).ok, false);
+  });
+
+  it('checks every packet of a bundle', () => {
+    const packets = [{ address: '/a', args: [1] }, { address: '/b', args: [2] }];
+    assert.equal(parseClientMessage({ type: 'bundle', packets }).ok, true);
+    assert.equal(parseClientMessage({ type: 'bundle', packets: [...packets, { address: '/c' }] }).ok, false);
+  });
+
+  it('checks enumerated fields', () => {
+    assert.equal(parseClientMessage({ type: 'replay', action: 'seek', position: 10 }).ok, true);
+    assert.equal(parseClientMessage({ type: 'replay', action: 'rewind' }).ok, false);
+    assert.equal(parseClientMessage({ type: 'testDestination', host: 'td', port: 7000, transport: 'sctp' }).ok, false);
+  });
+});
+
+describe('parseServerMessage', () => {
+  it('accepts a nack with failures and problems', () => {
+    const result = parseServerMessage({
+      type: 'nack',
+      requestId: 3,
+      code: 'invalid_parameter',
+      message: 'out of range',
+      failures: [],
+      problems: [{ address: '/pre/zoom', problem: 'out_of_range' }]
+    });
+    assert.equal(result.ok, true);
+  });
+
+  it('rejects an ack without a requestId', () => {
+    assert.deepEqual(
+      parseServerMessage({ type: 'ack', action: 'ok', problems: [] }),
+      { ok: false, error: 'Invalid requestId in ack message' }
+    );
+  });
+
+  it('rejects an ack for a rejected message', () => {
+    assert.equal(parseServerMessage({ type: 'ack', requestId: 1, action: 'rejected', problems: [] }).ok, false);
+  });
+
+  it('does not accept client-only types', () => {
+    assert.equal(parseServerMessage({ type: 'login', pin: '1234' }).ok, false);
+  });
+});
+
+describe('negotiateVersion', () => {
+  it('settles on the lower of the two versions', () => {
+    assert.equal(negotiateVersion({ version: PROTOCOL_VERSION + 1, minVersion: MIN_PROTOCOL_VERSION }), PROTOCOL_VERSION);
+    assert.equal(negotiateVersion({ version: MIN_PROTOCOL_VERSION, minVersion: 0 }), MIN_PROTOCOL_VERSION);
+  });
+
+  it('returns null when the versions do not overlap', () => {
+    assert.equal(negotiateVersion({ version: MIN_PROTOCOL_VERSION - 1, minVersion: 0 }), null);
+    assert.equal(negotiateVersion({ version: PROTOCOL_VERSION + 2, minVersion: PROTOCOL_VERSION + 1 }), null);
+  });
+});